@@ -3,58 +3,631 @@
 import * as path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { promptConfig } from './prompts';
-import { generateProjectStructure } from './generators/project.generator';
+import inquirer from 'inquirer';
+import { AuthBPConfig, hasAsymmetricJwt, hasPasswordLogin, hasSupabaseAuth, promptConfig } from './prompts';
+import {
+  generateProjectStructure,
+  addFeature,
+  Feature,
+  FEATURES,
+} from './generators/project.generator';
+import { loadConfig, readConfigFile } from './generators/config.generator';
+import { upgradeProject } from './generators/upgrade.generator';
+import {
+  DEFAULT_JWT_KEYS_FILE,
+  JWT_KEY_ALGORITHMS,
+  JwtKeyAlgorithm,
+  generateJwtKey,
+  promoteJwtKey,
+  retireJwtKeys,
+} from './generators/jwt-keys.generator';
+import {
+  detectPackageManager,
+  installDependencies,
+} from './generators/dependencies.generator';
+import { ParsedArgs, parseArgs, assertKnownFlags } from './utils/args';
+import {
+  CONFIG_KEYS,
+  normalizeConfig,
+  parseBoolean,
+  parseChoice,
+  toFlagName,
+  fromFlagName,
+} from './utils/config-validator';
+import {
+  PlannedChange,
+  PlannedFile,
+  startDryRun,
+  finishDryRun,
+  renderPlannedDiff,
+  setWriteOptions,
+} from './utils/file-generator';
+import { ConflictPolicy } from './utils/conflict-resolver';
+import {
+  GeneratedFileStatus,
+  MANIFEST_FILE,
+  getGeneratedFileStatuses,
+} from './utils/manifest';
 
 const getCurrentWorkingDirectory = () => process.cwd();
 
-export async function runCLI(): Promise<void> {
+const VALUE_FLAGS = [
+  'database',
+  'project',
+  'login-method',
+  'jwt-algorithm',
+  'token-transport',
+  'social-providers',
+  'config',
+  'algorithm',
+  'file',
+];
+const WRITE_FLAGS = ['dry-run', 'force', 'overwrite'];
+const INIT_FLAGS = [...CONFIG_KEYS.map(toFlagName), 'yes', 'config', 'install', ...WRITE_FLAGS];
+const ADD_FLAGS = ['install', ...WRITE_FLAGS];
+const UPGRADE_FLAGS = [...WRITE_FLAGS];
+const KEYS_FLAGS = ['algorithm', 'file'];
+const KEYS_ACTIONS = ['generate', 'promote', 'retire'];
+
+const USAGE = `Usage:
+  auth-bp-nest init [options]       Scaffold authentication into this project
+  auth-bp-nest add <feature>        Enable a feature in an existing scaffold
+                                    (${FEATURES.join(', ')})
+                                    Accepts --install / --no-install
+  auth-bp-nest status               List generated files as pristine, modified or deleted
+  auth-bp-nest upgrade              Migrate the scaffold to the installed generator version
+  auth-bp-nest keys <action>        Manage RS256/ES256 signing keys (${KEYS_ACTIONS.join(', ')})
+                                    Accepts --algorithm <RS256|ES256> and --file <path>
+
+Common options:
+  --dry-run                         Print the file plan and diffs without writing
+  --force                           Overwrite modified files without asking
+  --no-overwrite                    Keep modified files without asking
+
+Init options:
+  --database <supabase|gcloud-sql>  Database provider
+  --supabase-auth, --no-supabase-auth
+                                    Verify Supabase Auth JWTs instead of issuing tokens
+                                    (requires --database supabase)
+  --project <name>                  Nest monorepo project to scaffold into
+  --rbac, --no-rbac                 Enable or disable RBAC
+  --multitenant, --no-multitenant   Enable or disable multitenant support
+  --login-method <password|magic-link|both>
+                                    How users sign in (default: password)
+  --jwt-algorithm <HS256|RS256|ES256>
+                                    Access token signing (default: HS256)
+  --token-transport <bearer|cookie> Tokens in the response body or httpOnly cookies
+                                    with CSRF protection (default: bearer)
+  --whitelabel, --no-whitelabel     Enable or disable whitelabeling
+  --harden-main, --no-harden-main   Create or patch a hardened src/main.ts (default: off)
+  --email-verification, --no-email-verification
+                                    Require email verification on registration
+  --mfa, --no-mfa                   Enable or disable TOTP multi-factor authentication
+  --social-providers <list>         Comma-separated social logins (google, github, oidc)
+  --sso, --no-sso                   Per-tenant enterprise SSO (requires --multitenant)
+  --api-keys, --no-api-keys         Scoped API keys for machine-to-machine access
+  --login-protection, --no-login-protection
+                                    Failed login limits, delays and account lockout
+  --config <path.json>              Read settings from a config file
+  --install, --no-install           Install the added dependencies (asked when omitted)
+  -y, --yes                         Use defaults for anything not supplied
+`;
+
+export async function runCLI(argv: string[] = process.argv.slice(2)): Promise<void> {
   console.log(chalk.cyan.bold('\n🔐 Auth Boilerplate - NestJS Backend\n'));
-  console.log(chalk.blue('Initializing authentication setup...\n'));
 
   try {
-    // Prompt user for configuration
-    const config = await promptConfig();
-
-    const spinner = ora('Generating project structure...').start();
-
-    // Get project root (where npx command was run)
-    const projectRoot = getCurrentWorkingDirectory();
-    const templatesDir = path.join(__dirname, '..', 'templates');
-
-    // Generate the project
-    await generateProjectStructure({
-      projectRoot,
-      config,
-      templatesDir,
-    });
-
-    spinner.succeed('Project structure generated successfully!');
-
-    console.log(chalk.green('\n✅ Setup Complete!\n'));
-    console.log(chalk.blue('📚 Documentation:'));
-    console.log('  - Check .context.md files in each folder for detailed guidance');
-    console.log('  - Review .auth-bp-config.json for your configuration');
-    console.log('  - Copy .env.example to .env.local and fill in your credentials\n');
-
-    console.log(chalk.yellow('⚠️  Configuration Summary:'));
-    console.log(`  Database: ${config.database === 'supabase' ? 'Supabase PostgreSQL' : 'Google Cloud SQL'}`);
-    console.log(`  Whitelabel: ${config.whitelabel ? 'Enabled' : 'Disabled'}`);
-    console.log(`  RBAC: ${config.rbac ? 'Enabled' : 'Disabled'}`);
-    console.log(`  Multitenant: ${config.multitenant ? 'Enabled' : 'Disabled'}\n`);
-
-    console.log(chalk.cyan('🚀 Next Steps:'));
-    console.log('  1. npm install');
-    console.log('  2. Configure .env.local with your database credentials');
-    console.log('  3. npm run build');
-    console.log('  4. npx prisma migrate dev');
-    console.log('  5. npm run dev\n');
+    const args = parseArgs(argv, VALUE_FLAGS);
+    const command = args.command ?? 'init';
+
+    switch (command) {
+      case 'init':
+        await runInit(args);
+        break;
+      case 'add':
+        await runAdd(args);
+        break;
+      case 'status':
+        await runStatus(args);
+        break;
+      case 'upgrade':
+        await runUpgrade(args);
+        break;
+      case 'keys':
+        await runKeys(args);
+        break;
+      default:
+        throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
   } catch (error: any) {
     console.error(chalk.red('\n❌ Error during setup:'), error.message);
     process.exit(1);
   }
 }
 
+/**
+ * Resolve the configuration for `init` from, in order of precedence:
+ * CLI flags, the --config file, then interactive prompts (or defaults with --yes)
+ */
+async function resolveInitConfig(args: ParsedArgs): Promise<AuthBPConfig> {
+  assertKnownFlags(args, INIT_FLAGS, 'init');
+
+  const {
+    config: configPath,
+    yes,
+    install: _install,
+    'dry-run': _dryRun,
+    force: _force,
+    overwrite: _overwrite,
+    ...configFlags
+  } = args.flags;
+
+  const fromFile =
+    typeof configPath === 'string'
+      ? await readConfigFile(path.resolve(getCurrentWorkingDirectory(), configPath))
+      : {};
+
+  const fromFlags = normalizeConfig(
+    Object.fromEntries(
+      Object.entries(configFlags).map(([flag, value]) => [fromFlagName(flag), value])
+    ),
+    (key) => `--${toFlagName(key)}`
+  );
+
+  const config = await promptConfig(
+    { ...fromFile, ...fromFlags },
+    { yes: yes === undefined ? false : parseBoolean(yes, '--yes') }
+  );
+
+  if (hasSupabaseAuth(config)) {
+    if (config.database !== 'supabase') {
+      throw new Error('--supabase-auth requires the Supabase database (--database supabase)');
+    }
+    const conflicts = getSupabaseAuthConflicts(config);
+    if (conflicts.length > 0) {
+      throw new Error(
+        `--supabase-auth leaves sign-in and token issuing to Supabase Auth and cannot be combined with ${conflicts.join(', ')}`
+      );
+    }
+  }
+  if (config.sso && !config.multitenant) {
+    throw new Error('--sso requires multitenant support (--multitenant)');
+  }
+  if (config.loginProtection && !hasPasswordLogin(config)) {
+    throw new Error('--login-protection requires password login (--login-method password or both)');
+  }
+
+  return config;
+}
+
+/**
+ * Flags of the sign-in options a Supabase Auth configuration sets: they
+ * belong to the scaffold's own token issuing
+ */
+function getSupabaseAuthConflicts(config: AuthBPConfig): string[] {
+  const conflicts: string[] = [];
+  if ((config.loginMethod ?? 'password') !== 'password') {
+    conflicts.push('--login-method');
+  }
+  if ((config.jwtAlgorithm ?? 'HS256') !== 'HS256') {
+    conflicts.push('--jwt-algorithm');
+  }
+  if ((config.tokenTransport ?? 'bearer') !== 'bearer') {
+    conflicts.push('--token-transport');
+  }
+  if (config.emailVerification) {
+    conflicts.push('--email-verification');
+  }
+  if (config.mfa) {
+    conflicts.push('--mfa');
+  }
+  if (config.socialProviders?.length) {
+    conflicts.push('--social-providers');
+  }
+  if (config.sso) {
+    conflicts.push('--sso');
+  }
+  if (config.apiKeys) {
+    conflicts.push('--api-keys');
+  }
+  if (config.loginProtection) {
+    conflicts.push('--login-protection');
+  }
+  return conflicts;
+}
+
+async function runInit(args: ParsedArgs): Promise<void> {
+  console.log(chalk.blue('Initializing authentication setup...\n'));
+
+  // Resolve configuration from flags, config file and prompts
+  const config = await resolveInitConfig(args);
+
+  // Get project root (where npx command was run)
+  const projectRoot = getCurrentWorkingDirectory();
+  const templatesDir = path.join(__dirname, '..', 'templates');
+
+  setWriteOptions({ projectRoot, conflictPolicy: resolveConflictPolicy(args) });
+
+  if (isDryRunRequested(args)) {
+    await runDryRun(projectRoot, () =>
+      generateProjectStructure({ projectRoot, config, templatesDir })
+    );
+    return;
+  }
+
+  const spinner = ora('Generating project structure...').start();
+
+  // Generate the project
+  await generateProjectStructure({
+    projectRoot,
+    config,
+    templatesDir,
+  });
+
+  spinner.succeed('Project structure generated successfully!');
+
+  console.log(chalk.green('\n✅ Setup Complete!\n'));
+  console.log(chalk.blue('📚 Documentation:'));
+  console.log('  - Check .context.md files in each folder for detailed guidance');
+  console.log('  - Review .auth-bp-config.json for your configuration');
+  console.log('  - Copy .env.example to .env.local and fill in your credentials\n');
+
+  console.log(chalk.yellow('⚠️  Configuration Summary:'));
+  console.log(`  Database: ${config.database === 'supabase' ? 'Supabase PostgreSQL' : 'Google Cloud SQL'}`);
+  console.log(`  Supabase Auth: ${hasSupabaseAuth(config) ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Whitelabel: ${config.whitelabel ? 'Enabled' : 'Disabled'}`);
+  console.log(`  RBAC: ${config.rbac ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Multitenant: ${config.multitenant ? 'Enabled' : 'Disabled'}`);
+  if (!hasSupabaseAuth(config)) {
+    console.log(`  Login method: ${config.loginMethod ?? 'password'}`);
+    console.log(`  JWT signing: ${config.jwtAlgorithm ?? 'HS256'}`);
+    console.log(`  Token transport: ${config.tokenTransport ?? 'bearer'}`);
+  }
+  console.log(`  Hardened main.ts: ${config.hardenMain ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Email verification: ${config.emailVerification ? 'Enabled' : 'Disabled'}`);
+  console.log(`  MFA: ${config.mfa ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Social login: ${config.socialProviders?.length ? config.socialProviders.join(', ') : 'None'}`);
+  console.log(`  Enterprise SSO: ${config.sso ? 'Enabled' : 'Disabled'}`);
+  console.log(`  API keys: ${config.apiKeys ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Login protection: ${config.loginProtection ? 'Enabled' : 'Disabled'}\n`);
+
+  const installed = await maybeInstallDependencies(projectRoot, args);
+  const packageManager = await detectPackageManager(projectRoot);
+
+  const steps = [
+    ...(installed ? [] : [`${packageManager} install`]),
+    hasSupabaseAuth(config)
+      ? 'Configure .env.local with your database credentials and Supabase Auth settings (SUPABASE_URL, SUPABASE_JWT_SECRET)'
+      : 'Configure .env.local with your database credentials',
+    ...(hasAsymmetricJwt(config) ? ['npx auth-bp-nest keys generate (creates the JWT signing key)'] : []),
+    `${packageManager} run build`,
+    `${packageManager} run prisma:migrate`,
+    `${packageManager} run start:dev`,
+  ];
+  console.log(chalk.cyan('🚀 Next Steps:'));
+  steps.forEach((step, index) => console.log(`  ${index + 1}. ${step}`));
+  console.log('');
+}
+
+async function runAdd(args: ParsedArgs): Promise<void> {
+  assertKnownFlags(args, ADD_FLAGS, 'add');
+
+  const [feature, ...extra] = args.positionals;
+  if (!feature || extra.length > 0) {
+    throw new Error(`Usage: auth-bp-nest add <${FEATURES.join('|')}>`);
+  }
+  if (!(FEATURES as readonly string[]).includes(feature)) {
+    throw new Error(`Unknown feature "${feature}". Expected one of: ${FEATURES.join(', ')}`);
+  }
+
+  const options = {
+    projectRoot: getCurrentWorkingDirectory(),
+    feature: feature as Feature,
+    templatesDir: path.join(__dirname, '..', 'templates'),
+  };
+
+  setWriteOptions({
+    projectRoot: options.projectRoot,
+    conflictPolicy: resolveConflictPolicy(args),
+  });
+
+  if (isDryRunRequested(args)) {
+    await runDryRun(options.projectRoot, () => addFeature(options));
+    return;
+  }
+
+  const added = await addFeature(options);
+  if (!added) {
+    return;
+  }
+
+  const installed = await maybeInstallDependencies(options.projectRoot, args);
+  const packageManager = await detectPackageManager(options.projectRoot);
+
+  const steps = [
+    ...(installed ? [] : [`${packageManager} install`]),
+    'Review the regenerated .context.md files',
+    `${packageManager} run prisma:migrate`,
+  ];
+  console.log(chalk.cyan('🚀 Next Steps:'));
+  steps.forEach((step, index) => console.log(`  ${index + 1}. ${step}`));
+  console.log('');
+}
+
+async function runStatus(args: ParsedArgs): Promise<void> {
+  assertKnownFlags(args, [], 'status');
+
+  const projectRoot = getCurrentWorkingDirectory();
+  const reports = await getGeneratedFileStatuses(projectRoot);
+  if (reports.length === 0) {
+    throw new Error(
+      `No ${MANIFEST_FILE} found in ${projectRoot}. Run "auth-bp-nest init" first`
+    );
+  }
+
+  const labels: Record<GeneratedFileStatus, string> = {
+    pristine: chalk.green('pristine'),
+    modified: chalk.yellow('modified'),
+    deleted: chalk.red('deleted '),
+  };
+
+  console.log(chalk.blue('📋 Generated files:\n'));
+  for (const report of reports) {
+    console.log(`  ${labels[report.status]}  ${report.path}`);
+  }
+
+  const count = (status: GeneratedFileStatus) =>
+    reports.filter((report) => report.status === status).length;
+  console.log(
+    chalk.blue(
+      `\n${count('pristine')} pristine, ${count('modified')} modified, ${count('deleted')} deleted\n`
+    )
+  );
+}
+
+async function runUpgrade(args: ParsedArgs): Promise<void> {
+  assertKnownFlags(args, UPGRADE_FLAGS, 'upgrade');
+
+  const options = {
+    projectRoot: getCurrentWorkingDirectory(),
+    templatesDir: path.join(__dirname, '..', 'templates'),
+  };
+
+  // Upgrades keep user edits by default: modified files are three-way merged
+  setWriteOptions({
+    projectRoot: options.projectRoot,
+    conflictPolicy: resolveConflictPolicy(args, 'merge'),
+  });
+
+  if (isDryRunRequested(args)) {
+    await runDryRun(options.projectRoot, () => upgradeProject(options));
+    return;
+  }
+
+  const report = await upgradeProject(options);
+
+  if (report.applied.length === 0) {
+    console.log(chalk.green(`✅ Already up to date (v${report.toVersion})\n`));
+    return;
+  }
+
+  console.log(chalk.green(`\n✅ Upgraded from v${report.fromVersion} to v${report.toVersion}\n`));
+  console.log(chalk.blue('Applied migrations:'));
+  for (const migration of report.applied) {
+    console.log(`  ✓ ${migration.version}: ${migration.description}`);
+  }
+
+  if (report.unmerged.length > 0 || report.skipped.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Could not apply automatically:'));
+    for (const file of report.unmerged) {
+      console.log(`  - ${file}: your edits conflict with the update, review ${file}.new`);
+    }
+    for (const file of report.skipped) {
+      console.log(`  - ${file}: skipped, still on the previous template`);
+    }
+  }
+
+  if (report.manualSteps.length > 0) {
+    console.log(chalk.cyan('\n🚀 Next Steps:'));
+    report.manualSteps.forEach((step, index) => console.log(`  ${index + 1}. ${step}`));
+  }
+  console.log('');
+}
+
+async function runKeys(args: ParsedArgs): Promise<void> {
+  assertKnownFlags(args, KEYS_FLAGS, 'keys');
+
+  const [action, ...extra] = args.positionals;
+  if (!action || extra.length > 0 || !KEYS_ACTIONS.includes(action)) {
+    throw new Error(`Usage: auth-bp-nest keys <${KEYS_ACTIONS.join('|')}> [--algorithm <RS256|ES256>] [--file <path>]`);
+  }
+
+  const projectRoot = getCurrentWorkingDirectory();
+  const file = path.resolve(
+    projectRoot,
+    typeof args.flags.file === 'string' ? args.flags.file : DEFAULT_JWT_KEYS_FILE
+  );
+  const relativeFile = path.relative(projectRoot, file);
+
+  switch (action) {
+    case 'generate': {
+      const key = await generateJwtKey(file, await resolveKeyAlgorithm(projectRoot, args));
+      console.log(chalk.green(`✅ Generated ${key.alg} key ${key.kid} (${key.status}) in ${relativeFile}\n`));
+      if (key.status === 'next') {
+        console.log('  The key is published in /.well-known/jwks.json but does not sign tokens yet.');
+        console.log('  Deploy it, wait for verifiers to refresh their JWKS cache, then run "auth-bp-nest keys promote".\n');
+      }
+      console.log(chalk.yellow(`⚠️  ${relativeFile} holds private keys: keep it out of version control\n`));
+      break;
+    }
+    case 'promote': {
+      const key = await promoteJwtKey(file);
+      console.log(chalk.green(`✅ ${key.kid} now signs access tokens\n`));
+      console.log('  The previous key keeps verifying the tokens it signed. Once they have expired');
+      console.log('  (JWT_EXPIRATION after deploying), run "auth-bp-nest keys retire".\n');
+      break;
+    }
+    case 'retire': {
+      const retired = await retireJwtKeys(file);
+      if (retired.length === 0) {
+        console.log(chalk.yellow('⚠️  No retiring keys, nothing to do\n'));
+        return;
+      }
+      console.log(chalk.green(`✅ Removed ${retired.map((key) => key.kid).join(', ')} from ${relativeFile}\n`));
+      break;
+    }
+  }
+}
+
+/**
+ * --algorithm, else the scaffold's jwtAlgorithm when it is asymmetric, else RS256
+ */
+async function resolveKeyAlgorithm(projectRoot: string, args: ParsedArgs): Promise<JwtKeyAlgorithm> {
+  if (args.flags.algorithm !== undefined) {
+    return parseChoice(args.flags.algorithm, JWT_KEY_ALGORITHMS, '--algorithm');
+  }
+
+  const configFile = await loadConfig(projectRoot);
+  const configured = configFile?.backend.jwtAlgorithm;
+  return configured === 'RS256' || configured === 'ES256' ? configured : 'RS256';
+}
+
+function isDryRunRequested(args: ParsedArgs): boolean {
+  const value = args.flags['dry-run'];
+  return value === undefined ? false : parseBoolean(value, '--dry-run');
+}
+
+/**
+ * Install dependencies with the host's package manager when --install is
+ * given, or when the user agrees at the prompt. Returns true if installed.
+ */
+async function maybeInstallDependencies(projectRoot: string, args: ParsedArgs): Promise<boolean> {
+  const packageManager = await detectPackageManager(projectRoot);
+  let install =
+    args.flags.install === undefined ? undefined : parseBoolean(args.flags.install, '--install');
+
+  // Never prompt in scripts: --yes or a non-interactive terminal means "don't install"
+  const yes = args.flags.yes === undefined ? false : parseBoolean(args.flags.yes, '--yes');
+  if (install === undefined && !yes && process.stdin.isTTY) {
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'install',
+        message: `Install dependencies now with ${packageManager}?`,
+        default: true,
+        prefix: '❓',
+      },
+    ]);
+    install = answers.install;
+  }
+
+  if (!install) {
+    return false;
+  }
+
+  console.log(chalk.cyan(`\n📦 Running ${packageManager} install...\n`));
+  await installDependencies(projectRoot, packageManager);
+  console.log(chalk.green('\n✓ Dependencies installed\n'));
+  return true;
+}
+
+/**
+ * Map --force / --no-overwrite to a conflict policy; without either, use the command's default
+ */
+function resolveConflictPolicy(
+  args: ParsedArgs,
+  defaultPolicy: ConflictPolicy = 'prompt'
+): ConflictPolicy {
+  const force = args.flags.force === undefined ? false : parseBoolean(args.flags.force, '--force');
+  const overwrite =
+    args.flags.overwrite === undefined ? undefined : parseBoolean(args.flags.overwrite, '--overwrite');
+
+  if (force && overwrite === false) {
+    throw new Error('--force and --no-overwrite cannot be used together');
+  }
+  if (force || overwrite === true) {
+    return 'overwrite';
+  }
+  return overwrite === false ? 'skip' : defaultPolicy;
+}
+
+/**
+ * Run a generator with every write redirected to an in-memory plan,
+ * then print which files would change and their diffs. Modified files are
+ * labelled with what the conflict policy would do to them.
+ */
+async function runDryRun(projectRoot: string, generate: () => Promise<unknown>): Promise<void> {
+  startDryRun();
+  let plan: PlannedFile[];
+  try {
+    await generate();
+  } finally {
+    plan = await finishDryRun();
+  }
+
+  const labels: Record<PlannedChange, string> = {
+    create: chalk.green('create   '),
+    update: chalk.yellow('update   '),
+    unchanged: chalk.gray('unchanged'),
+    overwrite: chalk.red('overwrite'),
+    merge: chalk.green('merge    '),
+    'new-file': chalk.cyan('new file '),
+    skip: chalk.gray('skip     '),
+    conflict: chalk.red('conflict '),
+    delete: chalk.red('delete   '),
+  };
+
+  console.log(chalk.cyan.bold('\n📋 Dry run - no files were written\n'));
+  for (const file of plan) {
+    const relativePath = path.relative(projectRoot, file.filePath);
+    console.log(
+      `  ${labels[file.change]}  ${file.change === 'new-file' ? `${relativePath}.new` : relativePath}`
+    );
+  }
+
+  const changed = plan.filter((file) => file.change !== 'unchanged' && file.change !== 'skip');
+  for (const file of changed) {
+    console.log('');
+    for (const line of renderPlannedDiff(file, projectRoot).split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++')) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith('-') && !line.startsWith('---')) {
+        console.log(chalk.red(line));
+      } else if (line.startsWith('@@')) {
+        console.log(chalk.cyan(line));
+      } else {
+        console.log(line);
+      }
+    }
+  }
+
+  const count = (change: PlannedChange) => plan.filter((file) => file.change === change).length;
+  const summaries: Array<[PlannedChange, string]> = [
+    ['create', 'to create'],
+    ['update', 'to update'],
+    ['overwrite', 'to overwrite'],
+    ['merge', 'to merge'],
+    ['new-file', 'to write as .new'],
+    ['skip', 'to skip'],
+    ['conflict', 'in conflict'],
+    ['delete', 'to delete'],
+    ['unchanged', 'unchanged'],
+  ];
+  // Modified files only show up when there are any
+  const summary = summaries
+    .filter(([change]) => count(change) > 0 || ['create', 'update', 'unchanged'].includes(change))
+    .map(([change, label]) => `${count(change)} ${label}`);
+  console.log(chalk.blue(`\n${summary.join(', ')}\n`));
+  if (count('conflict') > 0) {
+    console.log(
+      chalk.yellow(
+        'Files marked conflict have been modified: the run asks what to do with each before writing anything, ' +
+          'or fails without a terminal. Pass --force or --no-overwrite to decide up front\n'
+      )
+    );
+  }
+}
+
 // Run the CLI
 if (require.main === module) {
   runCLI();
@@ -0,0 +1,330 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * ApiKeyTemplates
+ *
+ * Source of the optional API keys for machine-to-machine access: ApiKeyService
+ * and ApiKeyController under auth/api-keys (keys are stored as SHA-256 hashes
+ * in the ApiKey model), the passport strategy reading X-API-Key, ApiKeyGuard
+ * and JwtOrApiKeyGuard, and the @AllowApiKey() / @RequireApiKey() decorators
+ * the global JwtAuthGuard looks for.
+ */
+
+type ApiKeyTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'multitenant'>;
+
+export function generateApiKeyService(config: ApiKeyTemplateConfig): string {
+  return `import { Injectable, NotFoundException } from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { CreateApiKeyDto } from '../dto/create-api-key.dto';
+import { UpdateApiKeyDto } from '../dto/update-api-key.dto';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+
+/**
+ * An API key as returned to its owner; the hash never leaves the service
+ */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'userId'>;
+
+const SUMMARY_FIELDS = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  scopes: true,${config.multitenant ? '\n  tenantId: true,' : ''}
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+/** lastUsedAt is written at most once a minute per key */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Keys look like \`sk_<43 random characters>\`. Only their SHA-256 hash is
+ * stored; keyPrefix keeps the first characters so users can tell keys apart.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly prefix = process.env.API_KEY_PREFIX ?? 'sk';
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a key owned by the user${config.multitenant ? ' and scoped to their tenant' : ''}. The response
+   * is the only time the key itself is available.
+   */
+  async create(user: AuthenticatedUser, dto: CreateApiKeyDto): Promise<ApiKeySummary & { key: string }> {
+    const key = \`\${this.prefix}_\${randomBytes(32).toString('base64url')}\`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: dto.name,
+        keyPrefix: key.slice(0, this.prefix.length + 9),
+        keyHash: hashApiKey(key),
+        scopes: dto.scopes ?? [],
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+        userId: user.userId,${config.multitenant ? '\n        tenantId: user.tenantId,' : ''}
+      },
+      select: SUMMARY_FIELDS,
+    });
+
+    return { ...apiKey, key };
+  }
+
+  list(userId: string): Promise<ApiKeySummary[]> {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      select: SUMMARY_FIELDS,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async get(userId: string, id: string): Promise<ApiKeySummary> {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id, userId },
+      select: SUMMARY_FIELDS,
+    });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+    return apiKey;
+  }
+
+  async update(userId: string, id: string, dto: UpdateApiKeyDto): Promise<ApiKeySummary> {
+    await this.get(userId, id);
+
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { name: dto.name, scopes: dto.scopes },
+      select: SUMMARY_FIELDS,
+    });
+  }
+
+  /**
+   * Delete a key; requests using it fail from then on
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const { count } = await this.prisma.apiKey.deleteMany({ where: { id, userId } });
+    if (count === 0) {
+      throw new NotFoundException('API key not found');
+    }
+  }
+
+  /**
+   * The principal for an X-API-Key value, or null when the key is unknown or
+   * expired${config.multitenant ? ', or the request targets another tenant' : ''}
+   */
+  async authenticate(key: string${config.multitenant ? ', tenantId?: string' : ''}): Promise<AuthenticatedUser | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+      include: { user: true },
+    });
+
+    const now = new Date();
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }${
+      config.multitenant
+        ? `
+
+    // A key only works for the tenant it was created in
+    if (tenantId && apiKey.tenantId !== tenantId) {
+      return null;
+    }`
+        : ''
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+    }
+
+    return {
+      userId: apiKey.userId,
+      email: apiKey.user.email,${
+        config.rbac
+          ? `
+      // Keys are limited by their scopes and do not inherit the owner's roles
+      roles: [],`
+          : ''
+      }${config.multitenant ? '\n      tenantId: apiKey.tenantId ?? undefined,' : ''}
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+    };
+  }
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+`;
+}
+
+export function generateApiKeyController(config: ApiKeyTemplateConfig): string {
+  return `import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Patch, Post } from '@nestjs/common';
+import { CurrentUser } from '../current-user.decorator';
+import { CreateApiKeyDto } from '../dto/create-api-key.dto';
+import { UpdateApiKeyDto } from '../dto/update-api-key.dto';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+import { ApiKeyService } from './api-key.service';
+
+/**
+ * Users manage their own keys. These routes only accept a JWT, so an API key
+ * cannot be used to create or widen other keys.
+ */
+@Controller('auth/api-keys')
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  // The response is the only time the key is shown
+  @Post()
+  create(@CurrentUser() user: AuthenticatedUser, @Body() dto: CreateApiKeyDto) {
+    return this.apiKeyService.create(user, dto);
+  }
+
+  @Get()
+  list(@CurrentUser() user: AuthenticatedUser) {
+    return this.apiKeyService.list(user.userId);
+  }
+
+  @Get(':id')
+  get(@CurrentUser() user: AuthenticatedUser, @Param('id') id: string) {
+    return this.apiKeyService.get(user.userId, id);
+  }
+
+  @Patch(':id')
+  update(@CurrentUser() user: AuthenticatedUser, @Param('id') id: string, @Body() dto: UpdateApiKeyDto) {
+    return this.apiKeyService.update(user.userId, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@CurrentUser() user: AuthenticatedUser, @Param('id') id: string) {
+    return this.apiKeyService.remove(user.userId, id);
+  }
+}
+`;
+}
+
+export function generateApiKeyStrategy(config: ApiKeyTemplateConfig): string {
+  return `import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport-custom';
+import { ApiKeyService } from '../api-keys/api-key.service';
+import { AuthenticatedUser } from './jwt.strategy';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Authenticates requests carrying an X-API-Key header. A missing or invalid
+ * key fails the strategy, so JwtOrApiKeyGuard answers 401.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private apiKeys: ApiKeyService) {
+    super();
+  }
+
+  async validate(request: Request): Promise<AuthenticatedUser | null> {
+    const key = request.header(API_KEY_HEADER);
+    if (!key) {
+      return null;
+    }
+${
+  config.multitenant
+    ? `
+    // A key is only accepted for its own tenant
+    return this.apiKeys.authenticate(key, request.header('x-tenant-id'));`
+    : `
+    return this.apiKeys.authenticate(key);`
+}
+  }
+}
+`;
+}
+
+export function generateApiKeyGuard(config: ApiKeyTemplateConfig): string {
+  return `import { ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { API_KEY_ROUTE_KEY, ApiKeyRoute } from './api-key.decorator';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * Accepts only an X-API-Key. JwtAuthGuard switches to it on @RequireApiKey() routes.
+ */
+@Injectable()
+export class ApiKeyGuard extends AuthGuard('api-key') {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  handleRequest<TUser = AuthenticatedUser>(err: any, user: any, info: any, context: ExecutionContext): TUser {
+    return checkScopes(this.reflector, context, super.handleRequest<TUser>(err, user, info, context));
+  }
+}
+
+/**
+ * Accepts a JWT bearer token or an X-API-Key. JwtAuthGuard switches to it on
+ * @AllowApiKey() routes.
+ */
+@Injectable()
+export class JwtOrApiKeyGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  handleRequest<TUser = AuthenticatedUser>(err: any, user: any, info: any, context: ExecutionContext): TUser {
+    return checkScopes(this.reflector, context, super.handleRequest<TUser>(err, user, info, context));
+  }
+}
+
+/**
+ * An API key needs every scope listed on the route; users signed in with a
+ * JWT are not limited by scopes
+ */
+function checkScopes<TUser>(reflector: Reflector, context: ExecutionContext, user: TUser): TUser {
+  const apiKey = (user as AuthenticatedUser).apiKey;
+  if (!apiKey) {
+    return user;
+  }
+
+  const route = reflector.getAllAndOverride<ApiKeyRoute | undefined>(API_KEY_ROUTE_KEY, [
+    context.getHandler(),
+    context.getClass(),
+  ]);
+  const missing = (route?.scopes ?? []).filter((scope) => !apiKey.scopes.includes(scope));
+  if (missing.length > 0) {
+    throw new ForbiddenException(\`API key is missing the \${missing.join(', ')} scope\`);
+  }
+
+  return user;
+}
+`;
+}
+
+export function generateApiKeyDecorator(config: ApiKeyTemplateConfig): string {
+  return `import { SetMetadata } from '@nestjs/common';
+
+export const API_KEY_ROUTE_KEY = 'apiKeyRoute';
+
+export interface ApiKeyRoute {
+  /** Scopes the API key must have */
+  scopes: string[];
+  /** Reject JWTs: only API keys can call the route */
+  apiKeyOnly: boolean;
+}
+
+/**
+ * Accept an X-API-Key with these scopes in addition to a JWT, e.g.
+ * \`@AllowApiKey('orders:read')\`
+ */
+export const AllowApiKey = (...scopes: string[]) =>
+  SetMetadata<string, ApiKeyRoute>(API_KEY_ROUTE_KEY, { scopes, apiKeyOnly: false });
+
+/**
+ * Accept only an X-API-Key with these scopes (machine-to-machine routes)
+ */
+export const RequireApiKey = (...scopes: string[]) =>
+  SetMetadata<string, ApiKeyRoute>(API_KEY_ROUTE_KEY, { scopes, apiKeyOnly: true });
+`;
+}
@@ -0,0 +1,48 @@
+import { AppModuleRegistration, getAppModuleRegistration, patchAppModule } from './app-module.generator';
+
+const APP_MODULE = `import { Module } from '@nestjs/common';
+import { AppController } from './app.controller';
+
+@Module({
+  imports: [],
+  controllers: [AppController],
+})
+export class AppModule {}
+`;
+
+const count = (source: string, text: string) => source.split(text).length - 1;
+
+describe('patchAppModule', () => {
+  let registration: AppModuleRegistration;
+
+  beforeEach(() => {
+    registration = getAppModuleRegistration({ rbac: true, multitenant: true });
+  });
+
+  it('registers the modules and guards', () => {
+    const patched = patchAppModule(APP_MODULE, registration);
+
+    expect(patched).toContain("import { AuthModule } from './auth/auth.module';");
+    expect(patched).toMatch(/imports: \[DatabaseModule, MailModule, AuthModule, RbacModule, TenantModule\]/);
+    expect(patched).toContain('{ provide: APP_GUARD, useClass: TenantGuard }');
+    expect(patched).toContain('controllers: [AppController],');
+  });
+
+  it('changes nothing when run again', () => {
+    const once = patchAppModule(APP_MODULE, registration);
+
+    expect(patchAppModule(once, registration)).toBe(once);
+  });
+
+  it('only adds what is missing from a partly registered module', () => {
+    const partial = patchAppModule(APP_MODULE, getAppModuleRegistration({ rbac: false, multitenant: false }));
+
+    const patched = patchAppModule(partial, registration);
+
+    for (const name of ['AuthModule', 'DatabaseModule', 'JwtAuthGuard', 'RbacModule', 'TenantGuard']) {
+      expect(count(patched, `import { ${name} }`)).toBe(1);
+    }
+    expect(count(patched, 'useClass: JwtAuthGuard')).toBe(1);
+    expect(patchAppModule(patched, registration)).toBe(patched);
+  });
+});
@@ -0,0 +1,238 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import chalk from 'chalk';
+import { writeFile, readCurrentFile } from '../utils/file-generator';
+import { SourceEditor, findClassDecorator, findProperty } from '../utils/ast-editor';
+import { NestProjectLayout, getSourceDir } from '../utils/nest-project';
+
+/**
+ * AppModuleGenerator
+ *
+ * Registers the generated modules in the host application's app.module.ts:
+ * module imports and global APP_GUARD providers. Edits are made at AST positions so the rest of the
+ * file keeps its formatting, and running it twice changes nothing.
+ */
+
+export interface ImportedSymbol {
+  name: string;
+  /** Import path relative to app.module.ts */
+  from: string;
+}
+
+export interface AppModuleRegistration {
+  modules: ImportedSymbol[];
+  guards: ImportedSymbol[];
+}
+
+export function getAppModuleRegistration(config: {
+  rbac: boolean;
+  multitenant: boolean;
+  emailVerification?: boolean;
+  supabaseAuth?: boolean;
+}): AppModuleRegistration {
+  const registration: AppModuleRegistration = {
+    modules: [
+      { name: 'DatabaseModule', from: './database/database.module' },
+      // Supabase Auth sends the auth emails itself
+      ...(config.supabaseAuth ? [] : [{ name: 'MailModule', from: './mail/mail.module' }]),
+      { name: 'AuthModule', from: './auth/auth.module' },
+    ],
+    // Order matters: the JWT guard must populate request.user before TenantGuard and RbacGuard run
+    guards: [{ name: 'JwtAuthGuard', from: './auth/auth.guard' }],
+  };
+
+  // The tenant is resolved from the verified token, so this is a guard and not middleware
+  if (config.multitenant) {
+    registration.guards.push({ name: 'TenantGuard', from: './tenant/tenant.guard' });
+  }
+
+  if (config.emailVerification) {
+    registration.guards.push({ name: 'EmailVerifiedGuard', from: './auth/email-verified.guard' });
+  }
+
+  if (config.rbac) {
+    registration.modules.push({ name: 'RbacModule', from: './rbac/rbac.module' });
+    registration.guards.push({ name: 'RbacGuard', from: './rbac/rbac.guard' });
+  }
+
+  if (config.multitenant) {
+    registration.modules.push({ name: 'TenantModule', from: './tenant/tenant.module' });
+  }
+
+  return registration;
+}
+
+/**
+ * Register the generated modules in the source root's app.module.ts, if it exists
+ */
+export async function registerInAppModule(
+  projectRoot: string,
+  layout: NestProjectLayout,
+  config: { rbac: boolean; multitenant: boolean; emailVerification?: boolean; supabaseAuth?: boolean }
+): Promise<void> {
+  const appModulePath = path.join(getSourceDir(projectRoot, layout), 'app.module.ts');
+  const displayPath = `${layout.sourceRoot}/app.module.ts`;
+  const source = await readCurrentFile(appModulePath);
+  const registration = getAppModuleRegistration(config);
+
+  if (source === null) {
+    console.log(chalk.yellow(`⚠️  ${displayPath} not found, register these in your root module:`));
+    for (const symbol of [...registration.modules, ...registration.guards]) {
+      console.log(`  - ${symbol.name} from '${symbol.from}'`);
+    }
+    return;
+  }
+
+  const patched = patchAppModule(source, registration);
+  if (patched === source) {
+    console.log(chalk.gray(`✓ ${displayPath} already up to date`));
+    return;
+  }
+
+  await writeFile(appModulePath, patched, { tracked: false });
+  console.log(chalk.green(`✓ Modules registered in ${displayPath}`));
+}
+
+/**
+ * Apply the registration to app.module.ts source text
+ */
+export function patchAppModule(source: string, registration: AppModuleRegistration): string {
+  const editor = new SourceEditor('app.module.ts', source);
+
+  const moduleClass = editor.sourceFile.statements.find(
+    (statement): statement is ts.ClassDeclaration =>
+      ts.isClassDeclaration(statement) && findClassDecorator(statement, 'Module') !== undefined
+  );
+  if (!moduleClass) {
+    throw new Error('Could not find a class decorated with @Module() in app.module.ts');
+  }
+
+  const decorator = findClassDecorator(moduleClass, 'Module')!;
+  const metadata = decorator.arguments[0];
+
+  // `@Module()` or `@Module({})`: start from empty imports/providers arrays
+  if (metadata === undefined || (ts.isObjectLiteralExpression(metadata) && metadata.properties.length === 0)) {
+    const start = metadata ? metadata.getStart() : decorator.arguments.pos;
+    const end = metadata ? metadata.getEnd() : decorator.arguments.end;
+    const indent = editor.indentUnit();
+    const normalized = `{\n${indent}imports: [],\n${indent}providers: [],\n}`;
+    return patchAppModule(source.slice(0, start) + normalized + source.slice(end), registration);
+  }
+
+  if (!ts.isObjectLiteralExpression(metadata)) {
+    throw new Error('@Module() in app.module.ts must be given an object literal');
+  }
+
+  registerModules(editor, metadata, registration.modules);
+  registerGuards(editor, metadata, registration.guards);
+
+  return editor.hasChanges() ? editor.apply() : source;
+}
+
+function registerModules(
+  editor: SourceEditor,
+  metadata: ts.ObjectLiteralExpression,
+  modules: ImportedSymbol[]
+): void {
+  const importsProperty = findProperty(metadata, 'imports');
+  const existing = new Set<string>();
+
+  if (importsProperty && ts.isArrayLiteralExpression(importsProperty.initializer)) {
+    for (const element of importsProperty.initializer.elements) {
+      // Matches both `AuthModule` and `AuthModule.forRoot(...)`
+      const name = getRootIdentifier(element);
+      if (name) {
+        existing.add(name);
+      }
+    }
+  } else if (importsProperty) {
+    throw new Error('The imports of @Module() in app.module.ts must be an array literal');
+  }
+
+  const missing = modules.filter((symbol) => !existing.has(symbol.name));
+  if (missing.length === 0) {
+    return;
+  }
+
+  for (const symbol of missing) {
+    editor.ensureNamedImport(symbol.name, symbol.from);
+  }
+  addToMetadataArray(editor, metadata, importsProperty, 'imports', missing.map((symbol) => symbol.name));
+}
+
+function registerGuards(
+  editor: SourceEditor,
+  metadata: ts.ObjectLiteralExpression,
+  guards: ImportedSymbol[]
+): void {
+  const providersProperty = findProperty(metadata, 'providers');
+  const existing = new Set<string>();
+
+  if (providersProperty && ts.isArrayLiteralExpression(providersProperty.initializer)) {
+    for (const element of providersProperty.initializer.elements) {
+      if (!ts.isObjectLiteralExpression(element)) {
+        continue;
+      }
+      const provide = findProperty(element, 'provide');
+      const useClass = findProperty(element, 'useClass');
+      if (
+        provide &&
+        useClass &&
+        ts.isIdentifier(provide.initializer) &&
+        provide.initializer.text === 'APP_GUARD' &&
+        ts.isIdentifier(useClass.initializer)
+      ) {
+        existing.add(useClass.initializer.text);
+      }
+    }
+  } else if (providersProperty) {
+    throw new Error('The providers of @Module() in app.module.ts must be an array literal');
+  }
+
+  const missing = guards.filter((symbol) => !existing.has(symbol.name));
+  if (missing.length === 0) {
+    return;
+  }
+
+  editor.ensureNamedImport('APP_GUARD', '@nestjs/core');
+  for (const symbol of missing) {
+    editor.ensureNamedImport(symbol.name, symbol.from);
+  }
+  addToMetadataArray(
+    editor,
+    metadata,
+    providersProperty,
+    'providers',
+    missing.map((symbol) => `{ provide: APP_GUARD, useClass: ${symbol.name} }`)
+  );
+}
+
+/**
+ * Append entries to a @Module() metadata array, creating the property when missing
+ */
+function addToMetadataArray(
+  editor: SourceEditor,
+  metadata: ts.ObjectLiteralExpression,
+  property: ts.PropertyAssignment | undefined,
+  name: string,
+  elements: string[]
+): void {
+  if (property) {
+    editor.appendToArray(property.initializer as ts.ArrayLiteralExpression, elements);
+  } else {
+    editor.addArrayProperty(metadata, name, elements);
+  }
+}
+
+function getRootIdentifier(node: ts.Node): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isCallExpression(node)) {
+    return getRootIdentifier(node.expression);
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return getRootIdentifier(node.expression);
+  }
+  return undefined;
+}
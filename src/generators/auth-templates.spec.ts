@@ -0,0 +1,134 @@
+import 'reflect-metadata';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import { generateAuthModuleFile, generateAuthService } from './auth-templates';
+
+/** Tenant ids as the generated schema creates them, @default(cuid()) */
+const OPEN_TENANT = 'clx0k2m3n0000qz8v4h7w9e1a';
+const CLOSED_TENANT = 'clx0k2m3n0001qz8v4h7w9e1b';
+const SSO_TENANT = 'clx0k2m3n0002qz8v4h7w9e1c';
+
+const TENANTS: Record<string, object> = {
+  [OPEN_TENANT]: { id: OPEN_TENANT, openSignup: true, identityProviders: [] },
+  [CLOSED_TENANT]: { id: CLOSED_TENANT, openSignup: false, identityProviders: [] },
+  [SSO_TENANT]: { id: SSO_TENANT, openSignup: true, identityProviders: [{ id: 'idp-1' }] },
+};
+
+/**
+ * The User and Tenant queries AuthService makes
+ */
+function createPrisma(users: any[]) {
+  return {
+    user: {
+      findUnique: async ({ where }: any) => users.find((user) => user.email === where.email) ?? null,
+      create: async ({ data }: any) => {
+        const user = { id: `user-${users.length + 1}`, mfaEnabledAt: null, ...data };
+        users.push(user);
+        return user;
+      },
+    },
+    tenant: {
+      findUnique: async ({ where }: any) => TENANTS[where.id] ?? null,
+    },
+  };
+}
+
+describe('generated AuthService with multitenant', () => {
+  const config = { multitenant: true, sso: true, rbac: false, loginMethod: 'password' as const };
+  const metadata = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+  const registration = { email: 'jane@example.com', password: 'Correct-Horse-1', firstName: 'Jane', lastName: 'Doe' };
+
+  let code: GeneratedCode;
+  let users: any[];
+  let service: any;
+
+  /** The claims of the access token an AuthService call returned */
+  const claims = (tokens: { accessToken: string }) => JSON.parse(tokens.accessToken);
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({ 'auth/auth.service.ts': generateAuthService(config) });
+  });
+
+  afterAll(() => code.remove());
+
+  beforeEach(() => {
+    users = [];
+    const tokens = { accessTokenTtl: 900, signAccessToken: async (payload: object) => JSON.stringify(payload) };
+    const sessions = { create: async () => ({ familyId: 'family-1', refreshToken: 'refresh-token' }) };
+    const { AuthService } = code.load('auth/auth.service');
+    service = new AuthService(createPrisma(users), tokens, sessions);
+  });
+
+  describe('register', () => {
+    it('joins a tenant with open sign-up', async () => {
+      const tokens = await service.register({ ...registration, tenantId: OPEN_TENANT }, metadata);
+
+      expect(users[0].tenantId).toBe(OPEN_TENANT);
+      expect(claims(tokens).tenant_id).toBe(OPEN_TENANT);
+    });
+
+    it('rejects an unknown tenant with 400', async () => {
+      await expect(service.register({ ...registration, tenantId: 'clx-unknown' }, metadata)).rejects.toMatchObject({
+        status: 400,
+      });
+      expect(users).toEqual([]);
+    });
+
+    it('rejects a tenant without open sign-up with 403', async () => {
+      await expect(service.register({ ...registration, tenantId: CLOSED_TENANT }, metadata)).rejects.toMatchObject({
+        status: 403,
+      });
+      expect(users).toEqual([]);
+    });
+
+    it('rejects a tenant that signs in through its identity provider with 403', async () => {
+      await expect(service.register({ ...registration, tenantId: SSO_TENANT }, metadata)).rejects.toMatchObject({
+        status: 403,
+      });
+    });
+
+    it('checks a tenant from X-Tenant-ID the same way', async () => {
+      await expect(service.register(registration, metadata, CLOSED_TENANT)).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('creates a user without a tenant when none is named', async () => {
+      const tokens = await service.register(registration, metadata);
+
+      expect(users[0].tenantId).toBeNull();
+      expect(claims(tokens).tenant_id).toBeUndefined();
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      await service.register({ ...registration, tenantId: OPEN_TENANT }, metadata);
+    });
+
+    it('logs in with the cuid of the tenant the user was assigned', async () => {
+      const tokens = await service.login(
+        { email: registration.email, password: registration.password, tenantId: OPEN_TENANT },
+        metadata
+      );
+
+      expect(claims(tokens).tenant_id).toBe(OPEN_TENANT);
+    });
+
+    it('rejects a login for another tenant', async () => {
+      await expect(
+        service.login({ email: registration.email, password: registration.password, tenantId: CLOSED_TENANT }, metadata)
+      ).rejects.toThrow('Invalid email or password');
+    });
+  });
+});
+
+describe('generateAuthModuleFile', () => {
+  const config = { rbac: false, multitenant: false, tokenTransport: 'cookie' as const, loginMethod: 'password' as const };
+
+  it('applies the CSRF check to every route with the Nest 11 wildcard', () => {
+    expect(generateAuthModuleFile(config, 11)).toContain(".forRoutes('{*path}');");
+    expect(generateAuthModuleFile(config, null)).toContain(".forRoutes('{*path}');");
+  });
+
+  it('keeps the bare wildcard for hosts on Nest 10', () => {
+    expect(generateAuthModuleFile(config, 10)).toContain(".forRoutes('*');");
+  });
+});
@@ -0,0 +1,2008 @@
+import {
+  AuthBPConfig,
+  hasAsymmetricJwt,
+  hasCookieTransport,
+  hasLoginAttemptStore,
+  hasMagicLink,
+  hasPasswordLogin,
+  hasSupabaseAuth,
+  SocialProvider,
+} from '../prompts';
+import { getSocialRoutes } from './social-templates';
+import { SSO_STATE_ROUTES } from './sso-templates';
+
+/**
+ * AuthTemplates
+ *
+ * Source of the generated auth module: AuthService (register, login, refresh,
+ * logout on the Prisma User model), SessionService (refresh token families on
+ * the Session model), PasswordResetService or MagicLinkService depending on
+ * the login method, the optional email verification
+ * (EmailVerificationService, EmailVerifiedGuard), AuthController, the JWT
+ * token service (with the RS256/ES256 key store and JWKS endpoint when
+ * tokens are signed asymmetrically), the passport strategy and the global
+ * JwtAuthGuard, which also accepts API keys on @AllowApiKey() routes when
+ * they are enabled. With the cookie transport, token-issuing endpoints set
+ * httpOnly cookies (see cookie-auth-templates) instead of returning tokens.
+ */
+
+type AuthTemplateConfig = Pick<
+  AuthBPConfig,
+  | 'supabaseAuth'
+  | 'rbac'
+  | 'multitenant'
+  | 'loginMethod'
+  | 'jwtAlgorithm'
+  | 'tokenTransport'
+  | 'emailVerification'
+  | 'mfa'
+  | 'socialProviders'
+  | 'sso'
+  | 'apiKeys'
+  | 'loginProtection'
+>;
+
+const SOCIAL_STRATEGY_IMPORTS: Record<SocialProvider, string> = {
+  google: "import { GoogleStrategy } from './strategies/google.strategy';",
+  github: "import { GithubStrategy } from './strategies/github.strategy';",
+  oidc: "import { oidcStrategyProvider } from './strategies/oidc.strategy';",
+};
+
+const SOCIAL_STRATEGY_PROVIDERS: Record<SocialProvider, string> = {
+  google: 'GoogleStrategy',
+  github: 'GithubStrategy',
+  oidc: 'oidcStrategyProvider',
+};
+
+/**
+ * @param nestMajor Major of the host's @nestjs/core; null when unknown, which is
+ * treated as the current major
+ */
+export function generateAuthModuleFile(config: AuthTemplateConfig, nestMajor: number | null = null): string {
+  const socialProviders = config.socialProviders ?? [];
+  const social = socialProviders.length > 0;
+  const sso = Boolean(config.sso);
+  const stateCookies = [
+    ...(social ? [{ name: 'auth_oauth', secret: 'SOCIAL_SESSION_SECRET', routes: getSocialRoutes(socialProviders) }] : []),
+    ...(sso ? [{ name: 'auth_sso', secret: 'SSO_SESSION_SECRET', routes: SSO_STATE_ROUTES }] : []),
+  ];
+  const cookies = hasCookieTransport(config);
+  const middleware = stateCookies.length > 0 || cookies;
+  // Nest 11 routes with path-to-regexp v8, where a bare '*' is deprecated;
+  // '{*path}' also matches the root path
+  const allRoutes = nestMajor !== null && nestMajor < 11 ? "'*'" : "'{*path}'";
+
+  return `import { ${
+    middleware ? `MiddlewareConsumer, Module, NestModule${cookies && sso ? ', RequestMethod' : ''}` : 'Module'
+  } } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { ScheduleModule } from '@nestjs/schedule';${cookies ? "\nimport cookieParser = require('cookie-parser');" : ''}${
+    stateCookies.length > 0 ? "\nimport cookieSession = require('cookie-session');" : ''
+  }
+import { PrismaService } from '../database/prisma.service';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';${
+    config.mfa
+      ? `
+import { Clock, SystemClock } from './clock';
+import { MfaController } from './mfa/mfa.controller';
+import { MfaService } from './mfa/mfa.service';`
+      : ''
+  }
+import { JwtTokenService } from './jwt.service';${
+    hasAsymmetricJwt(config)
+      ? "\nimport { JwtKeyStore } from './jwt-keys';\nimport { JwksController } from './jwks.controller';"
+      : ''
+  }
+import { SessionController } from './session.controller';
+import { SessionService } from './session.service';
+import { TokenDenylist } from './token-denylist/token-denylist';
+import { DatabaseTokenDenylist } from './token-denylist/stores/database-token-denylist';
+import { MemoryTokenDenylist } from './token-denylist/stores/memory-token-denylist';
+import { RedisTokenDenylist } from './token-denylist/stores/redis-token-denylist';${
+    hasPasswordLogin(config) ? "\nimport { PasswordResetService } from './password-reset.service';" : ''
+  }${hasMagicLink(config) ? "\nimport { MagicLinkService } from './magic-link.service';" : ''}${
+    config.emailVerification
+      ? "\nimport { EmailVerificationService } from './email-verification.service';"
+      : ''
+  }
+import { JwtStrategy } from './strategies/jwt.strategy';
+import { JwtAuthGuard } from './auth.guard';${cookies ? "\nimport { CsrfMiddleware } from './csrf.middleware';" : ''}${
+    social
+      ? `
+import { SocialAuthController } from './social/social-auth.controller';
+import { SocialAuthService } from './social/social-auth.service';
+${socialProviders.map((provider) => SOCIAL_STRATEGY_IMPORTS[provider]).join('\n')}`
+      : ''
+  }${
+    sso
+      ? `
+import { OidcSsoService } from './sso/oidc-sso.service';
+import { SamlSsoService } from './sso/saml-sso.service';
+import { SsoController } from './sso/sso.controller';
+import { SsoService } from './sso/sso.service';`
+      : ''
+  }${
+    config.apiKeys
+      ? `
+import { ApiKeyController } from './api-keys/api-key.controller';
+import { ApiKeyService } from './api-keys/api-key.service';
+import { ApiKeyGuard, JwtOrApiKeyGuard } from './api-key.guard';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';`
+      : ''
+  }${
+    hasLoginAttemptStore(config)
+      ? `
+import { LoginAttemptStore } from './login-protection/login-attempt.store';${
+          config.loginProtection
+            ? `
+import { LoginProtectionController } from './login-protection/login-protection.controller';
+import { LoginProtectionService } from './login-protection/login-protection.service';`
+            : ''
+        }
+import { MemoryLoginAttemptStore } from './login-protection/stores/memory-login-attempt.store';
+import { RedisLoginAttemptStore } from './login-protection/stores/redis-login-attempt.store';`
+      : ''
+  }
+
+@Module({
+  imports: [
+    PassportModule.register({ defaultStrategy: 'jwt' }),
+    JwtModule.register({${
+      hasAsymmetricJwt(config)
+        ? `
+      // Access tokens are signed with the JwtKeyStore key by JwtTokenService`
+        : `
+      secret: process.env.JWT_SECRET,`
+    }
+      signOptions: { expiresIn: Number(process.env.JWT_EXPIRATION ?? 3600) },
+    }),
+    // Runs the expired session and reset token cleanup
+    ScheduleModule.forRoot(),
+  ],
+  controllers: [AuthController, SessionController${hasAsymmetricJwt(config) ? ', JwksController' : ''}${config.mfa ? ', MfaController' : ''}${social ? ', SocialAuthController' : ''}${sso ? ', SsoController' : ''}${
+    config.apiKeys ? ', ApiKeyController' : ''
+  }${config.loginProtection ? ', LoginProtectionController' : ''}],
+  providers: [
+    AuthService,
+    JwtTokenService,${hasAsymmetricJwt(config) ? '\n    JwtKeyStore,' : ''}
+    SessionService,
+    {
+      // database (default) and redis are shared between instances; memory is per process
+      provide: TokenDenylist,
+      inject: [PrismaService],
+      useFactory: (prisma: PrismaService): TokenDenylist => {
+        switch (process.env.TOKEN_DENYLIST_STORE) {
+          case 'memory':
+            return new MemoryTokenDenylist();
+          case 'redis':
+            return new RedisTokenDenylist();
+          default:
+            return new DatabaseTokenDenylist(prisma);
+        }
+      },
+    },${hasPasswordLogin(config) ? '\n    PasswordResetService,' : ''}${
+      hasMagicLink(config) ? '\n    MagicLinkService,' : ''
+    }${config.emailVerification ? '\n    EmailVerificationService,' : ''}${
+      config.mfa ? '\n    MfaService,\n    { provide: Clock, useClass: SystemClock },' : ''
+    }${
+      social
+        ? `\n    SocialAuthService,${socialProviders
+            .map((provider) => `\n    ${SOCIAL_STRATEGY_PROVIDERS[provider]},`)
+            .join('')}`
+        : ''
+    }${sso ? '\n    SsoService,\n    OidcSsoService,\n    SamlSsoService,' : ''}${
+      config.apiKeys ? '\n    ApiKeyService,\n    ApiKeyStrategy,\n    ApiKeyGuard,\n    JwtOrApiKeyGuard,' : ''
+    }${config.loginProtection ? '\n    LoginProtectionService,' : ''}${
+      hasLoginAttemptStore(config)
+        ? `
+    {
+      // memory (default) counts per instance; redis shares the counts between instances
+      provide: LoginAttemptStore,
+      useFactory: (): LoginAttemptStore =>
+        process.env.LOGIN_ATTEMPT_STORE === 'redis' ? new RedisLoginAttemptStore() : new MemoryLoginAttemptStore(),
+    },`
+        : ''
+    }
+    JwtStrategy,
+    JwtAuthGuard,
+  ],
+  exports: [${
+    config.apiKeys
+      ? `
+    AuthService,
+    JwtTokenService,
+    SessionService,
+    JwtModule,
+    PassportModule,
+    JwtAuthGuard,
+    // JwtAuthGuard delegates to these on API key routes
+    ApiKeyGuard,
+    JwtOrApiKeyGuard,
+  `
+      : 'AuthService, JwtTokenService, SessionService, JwtModule, PassportModule, JwtAuthGuard'
+  }],
+})
+${
+    middleware
+      ? `export class AuthModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {${
+    cookies
+      ? `
+    // Parse the auth cookies, then require the CSRF token on requests they authenticate
+    consumer
+      .apply(cookieParser(), CsrfMiddleware)${
+        sso
+          ? `
+      // The IdP posts the SAML response cross-site; the signed assertion authenticates it
+      .exclude({ path: 'auth/sso/:providerId/acs', method: RequestMethod.POST })`
+          : ''
+      }
+      .forRoutes(${allRoutes});`
+      : ''
+  }${
+    stateCookies.length > 0
+      ? `${cookies ? '\n' : ''}
+    // OAuth state, the PKCE verifier and the OIDC nonce are kept in a
+    // short-lived signed cookie between the redirect and the callback${stateCookies
+      .map(
+        (cookie) => `
+    consumer
+      .apply(stateCookie('${cookie.name}', '${cookie.secret}'))
+      .forRoutes(${cookie.routes.map((route) => `'${route}'`).join(', ')});`
+      )
+      .join('')}`
+      : ''
+  }
+  }
+}${
+    stateCookies.length > 0
+      ? `
+
+// Called while the app starts, so a missing secret stops it like a missing JWT key
+function stateCookie(name: string, secretName: string) {
+  const secret = process.env[secretName];
+  if (!secret) {
+    throw new Error(\`\${secretName} must be set to sign the \${name} cookie\`);
+  }
+
+  return cookieSession({
+    name,
+    keys: [secret],
+    maxAge: 10 * 60 * 1000,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+  });
+}`
+      : ''
+  }`
+      : 'export class AuthModule {}'
+  }
+`;
+}
+
+export function generateAuthService(config: AuthTemplateConfig): string {
+  const tenantParam = config.multitenant ? ', tenantId?: string' : '';
+
+  const passwordMethods = `  async register(dto: RegisterDto, metadata: SessionMetadata${tenantParam}): Promise<AuthTokens> {${
+    config.multitenant ? '\n    const signupTenantId = await this.resolveSignupTenant(dto.tenantId ?? tenantId);' : ''
+  }
+    const email = dto.email.toLowerCase();
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictException('Email is already registered');
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email,
+        ${
+          hasMagicLink(config)
+            ? '// Without a password the user signs in with magic links\n        passwordHash: dto.password ? await bcrypt.hash(dto.password, BCRYPT_ROUNDS) : null,'
+            : 'passwordHash: await bcrypt.hash(dto.password, BCRYPT_ROUNDS),'
+        }
+        firstName: dto.firstName,
+        lastName: dto.lastName,${
+          config.multitenant
+            ? `
+        tenantId: signupTenantId,`
+            : ''
+        }
+      },
+    });${
+      config.emailVerification
+        ? `
+    await this.emailVerification.sendVerificationEmail(user);`
+        : ''
+    }
+
+    return this.issueTokens(user, metadata);
+  }
+
+  async login(
+    dto: LoginDto,
+    metadata: SessionMetadata,
+  ): Promise<${config.mfa ? 'AuthTokens | MfaChallenge' : 'AuthTokens'}> {
+    const email = dto.email.toLowerCase();${
+      config.loginProtection
+        ? `
+    await this.loginProtection.assertNotLocked(email, metadata.ipAddress);
+`
+        : ''
+    }
+    const user = await this.prisma.user.findUnique({ where: { email } });
+
+    const passwordValid = await bcrypt.compare(
+      dto.password,
+      user?.passwordHash ?? DUMMY_PASSWORD_HASH,
+    );
+    if (!user || !passwordValid) {${
+      config.loginProtection ? '\n      await this.loginProtection.recordFailure(email, user, metadata.ipAddress);' : ''
+    }
+      throw new UnauthorizedException('Invalid email or password');
+    }${
+      config.multitenant
+        ? `
+
+    // The token carries the tenant the user was assigned. A login for a
+    // tenant (its login page) cannot sign in the user of another tenant.
+    if (dto.tenantId && user.tenantId !== dto.tenantId) {${
+      config.loginProtection ? '\n      await this.loginProtection.recordFailure(email, user, metadata.ipAddress);' : ''
+    }
+      throw new UnauthorizedException('Invalid email or password');
+    }`
+        : ''
+    }${
+      config.mfa
+        ? `
+
+    // Tokens are only issued once the second factor is verified${
+          config.loginProtection ? ', and the failed attempts are only cleared then' : ''
+        }
+    if (user.mfaEnabledAt) {
+      return this.mfa.createChallenge(user);
+    }`
+        : ''
+    }${
+      config.loginProtection
+        ? `
+
+    await this.loginProtection.recordSuccess(email);`
+        : ''
+    }
+
+    return this.issueTokens(user, metadata);
+  }`;
+
+  const magicLinkMethods = `  /**
+   * Create the account if needed and email a sign-in link. An existing email
+   * gets a sign-in link too, so the response does not reveal which addresses
+   * have an account.
+   */
+  async register(dto: RegisterDto${tenantParam}): Promise<void> {${
+    config.multitenant ? '\n    const signupTenantId = await this.resolveSignupTenant(dto.tenantId ?? tenantId);' : ''
+  }
+    const email = dto.email.toLowerCase();
+    const user =
+      (await this.prisma.user.findUnique({ where: { email } })) ??
+      (await this.prisma.user.create({
+        data: {
+          email,
+          firstName: dto.firstName,
+          lastName: dto.lastName,${
+            config.multitenant
+              ? `
+          tenantId: signupTenantId,`
+              : ''
+          }
+        },
+      }));
+
+    await this.magicLinks.sendLink(user);
+  }`;
+
+  return `${
+    hasPasswordLogin(config)
+      ? `import { ${
+          config.multitenant ? 'BadRequestException, ConflictException, ForbiddenException' : 'ConflictException'
+        }, Injectable, UnauthorizedException } from '@nestjs/common';
+import { User } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';`
+      : `import { ${config.multitenant ? 'BadRequestException, ForbiddenException, ' : ''}Injectable } from '@nestjs/common';
+import { User } from '@prisma/client';`
+  }
+import { PrismaService } from '../database/prisma.service';
+import { AuthTokens, JwtTokenService } from './jwt.service';
+import { IssuedSession, SessionMetadata, SessionService } from './session.service';${
+    config.emailVerification && hasPasswordLogin(config)
+      ? "\nimport { EmailVerificationService } from './email-verification.service';"
+      : ''
+  }${hasMagicLink(config) && !hasPasswordLogin(config) ? "\nimport { MagicLinkService } from './magic-link.service';" : ''}${
+    hasPasswordLogin(config) ? "\nimport { LoginDto } from './dto/login.dto';" : ''
+  }
+import { RegisterDto } from './dto/register.dto';
+import { RevokeTokenDto } from './dto/revoke-token.dto';${
+    config.loginProtection ? "\nimport { LoginProtectionService } from './login-protection/login-protection.service';" : ''
+  }${
+    config.mfa
+      ? `
+import { MfaVerifyDto } from './dto/mfa-verify.dto';
+import { MfaChallenge, MfaService } from './mfa/mfa.service';`
+      : ''
+  }
+
+${
+    hasPasswordLogin(config)
+      ? `export const BCRYPT_ROUNDS = 12;
+
+// Compared against when the email is unknown, so both failures take as long
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('auth-bp-nest-timing-guard', BCRYPT_ROUNDS);
+
+`
+      : ''
+  }@Injectable()
+export class AuthService {
+  constructor(
+    private prisma: PrismaService,
+    private tokens: JwtTokenService,
+    private sessions: SessionService,${
+      config.emailVerification && hasPasswordLogin(config)
+        ? '\n    private emailVerification: EmailVerificationService,'
+        : ''
+    }${hasPasswordLogin(config) ? '' : '\n    private magicLinks: MagicLinkService,'}${
+      config.loginProtection ? '\n    private loginProtection: LoginProtectionService,' : ''
+    }${config.mfa ? '\n    private mfa: MfaService,' : ''}
+  ) {}
+
+${hasPasswordLogin(config) ? passwordMethods : magicLinkMethods}${
+    config.mfa
+      ? `
+
+  /**
+   * Second login step for users with MFA: challenge token + TOTP or recovery code
+   */
+  async completeMfaLogin(dto: MfaVerifyDto, metadata: SessionMetadata): Promise<AuthTokens> {
+    const user = await this.mfa.verifyChallenge(dto);${
+      config.loginProtection ? '\n    await this.loginProtection.recordSuccess(user.email);' : ''
+    }
+    return this.issueTokens(user, metadata);
+  }`
+      : ''
+  }
+
+${
+    config.socialProviders?.length || config.sso || hasMagicLink(config)
+      ? `  /**
+   * Finish a login that did not use a password (social, SSO or magic link)
+   * once the user is known
+   */
+  async completeExternalLogin(
+    user: User,
+    metadata: SessionMetadata,
+  ): Promise<${config.mfa ? 'AuthTokens | MfaChallenge' : 'AuthTokens'}> {${
+          config.mfa
+            ? `
+    if (user.mfaEnabledAt) {
+      return this.mfa.createChallenge(user);
+    }
+`
+            : ''
+        }
+    return this.issueTokens(user, metadata);
+  }
+
+`
+      : ''
+  }  /**
+   * Exchange a refresh token for a new token pair. The refresh token is
+   * rotated; see SessionService.rotate for reuse detection.
+   */
+  async refresh(refreshToken: string, metadata: SessionMetadata): Promise<AuthTokens> {
+    const { user, ...session } = await this.sessions.rotate(refreshToken, metadata);
+    return this.buildTokens(user, session);
+  }
+
+  /**
+   * Sign out the device holding the refresh token (its whole token family)
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.sessions.revokeByRefreshToken(refreshToken);
+  }
+
+  /**
+   * Revoke a single access token, e.g. one that leaked, without signing out
+   * its session
+   */
+  async revokeAccessToken(dto: RevokeTokenDto): Promise<void> {
+    await this.tokens.revokeAccessToken(dto.token);
+  }
+
+  private async issueTokens(user: User, metadata: SessionMetadata): Promise<AuthTokens> {
+    const session = await this.sessions.create(user.id, metadata);
+    return this.buildTokens(user, session);
+  }
+
+  private async buildTokens(user: User, { familyId, refreshToken }: IssuedSession): Promise<AuthTokens> {
+    const accessToken = await this.tokens.signAccessToken({
+      sub: user.id,
+      email: user.email,
+      sid: familyId,${
+        config.rbac
+          ? `
+      roles: await this.getRoleNames(user.id),`
+          : ''
+      }${
+        config.multitenant
+          ? `
+      tenant_id: user.tenantId ?? undefined,`
+          : ''
+      }
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.tokens.accessTokenTtl,
+    };
+  }${
+    config.rbac
+      ? `
+
+  private async getRoleNames(userId: string): Promise<string[]> {
+    const userRoles = await this.prisma.userRole.findMany({
+      where: { userId },
+      include: { role: true },
+    });
+    return userRoles.map((userRole) => userRole.role.name);
+  }`
+      : ''
+  }${
+    config.multitenant
+      ? `
+
+  /**
+   * The tenant a user registers into. Clients can only choose an existing
+   * tenant that allows open sign-up; the users of other tenants are added by
+   * an admin${config.sso ? ' or come through the tenant identity provider' : ''}.
+   */
+  private async resolveSignupTenant(tenantId?: string): Promise<string | null> {
+    if (!tenantId) {
+      return null;
+    }
+
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },${
+        config.sso
+          ? `
+      include: { identityProviders: { where: { enabled: true }, select: { id: true } } },`
+          : ''
+      }
+    });
+    if (!tenant) {
+      throw new BadRequestException('Unknown tenant');
+    }
+    if (!tenant.openSignup${config.sso ? ' || tenant.identityProviders.length > 0' : ''}) {
+      throw new ForbiddenException('This tenant does not allow sign-up');
+    }
+    return tenant.id;
+  }`
+      : ''
+  }
+}
+`;
+}
+
+export function generateAuthController(config: AuthTemplateConfig): string {
+  const tenantImport = config.multitenant
+    ? "\nimport { TenantId } from '../tenant/tenant.decorator';"
+    : '';
+  const tenantParam = config.multitenant ? ', @TenantId() tenantId?: string' : '';
+  const tenantArg = config.multitenant ? ', tenantId' : '';
+  const passwords = hasPasswordLogin(config);
+  const magicLink = hasMagicLink(config);
+  const cookies = hasCookieTransport(config);
+  const responseParam = cookies ? ', @Res({ passthrough: true }) response: Response' : '';
+  // In cookie mode the tokens go into cookies instead of the response body
+  const sendTokens = (expression: string) => (cookies ? `setAuthCookies(response, await ${expression})` : expression);
+  const sendLoginResult = (expression: string) =>
+    cookies && config.mfa ? `setLoginCookies(response, await ${expression})` : sendTokens(expression);
+  const emailVerificationImports = config.emailVerification
+    ? `
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { EmailVerificationService } from './email-verification.service';`
+    : '';
+
+  return `import { Body, Controller, Get, HttpCode, HttpStatus, Post, Req${
+    cookies ? ', Res, UnauthorizedException' : ''
+  } } from '@nestjs/common';
+import { Request${cookies ? ', Response' : ''} } from 'express';${
+    cookies
+      ? `
+import {
+  clearAuthCookies,
+  getRefreshTokenCookie,
+  setAuthCookies,${config.mfa ? '\n  setLoginCookies,' : ''}
+} from './auth-cookies';`
+      : ''
+  }
+import { AuthService } from './auth.service';
+import { Public } from './public.decorator';
+import { CurrentUser } from './current-user.decorator';
+import { AuthenticatedUser } from './strategies/jwt.strategy';${passwords ? "\nimport { LoginDto } from './dto/login.dto';" : ''}
+import { RegisterDto } from './dto/register.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RevokeTokenDto } from './dto/revoke-token.dto';${
+    passwords
+      ? `
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PasswordResetService } from './password-reset.service';`
+      : ''
+  }${
+    magicLink
+      ? `
+import { MagicLinkRequestDto } from './dto/magic-link-request.dto';
+import { MagicLinkVerifyDto } from './dto/magic-link-verify.dto';
+import { MagicLinkService } from './magic-link.service';`
+      : ''
+  }
+import { getSessionMetadata } from './session.service';${emailVerificationImports}${tenantImport}
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private authService: AuthService,${passwords ? '\n    private passwordResetService: PasswordResetService,' : ''}${
+      magicLink ? '\n    private magicLinkService: MagicLinkService,' : ''
+    }${config.emailVerification ? '\n    private emailVerificationService: EmailVerificationService,' : ''}
+  ) {}
+${
+  passwords
+    ? `
+  @Public()
+  @Post('register')
+  ${cookies ? 'async ' : ''}register(@Body() dto: RegisterDto, @Req() request: Request${responseParam}${tenantParam}) {
+    return ${sendTokens(`this.authService.register(dto, getSessionMetadata(request)${tenantArg})`)};
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  ${cookies ? 'async ' : ''}login(@Body() dto: LoginDto, @Req() request: Request${responseParam}) {
+    return ${sendLoginResult('this.authService.login(dto, getSessionMetadata(request))')};
+  }
+`
+    : `
+  // Emails a sign-in link instead of returning tokens
+  @Public()
+  @Post('register')
+  @HttpCode(HttpStatus.ACCEPTED)
+  register(@Body() dto: RegisterDto${tenantParam}) {
+    return this.authService.register(dto${tenantArg});
+  }
+`
+}${
+  magicLink
+    ? `
+  // Always 202, whether or not the email belongs to an account
+  @Public()
+  @Post('magic-link')
+  @HttpCode(HttpStatus.ACCEPTED)
+  requestMagicLink(@Body() dto: MagicLinkRequestDto) {
+    return this.magicLinkService.requestLink(dto);
+  }
+
+  @Public()
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicLink(@Body() dto: MagicLinkVerifyDto, @Req() request: Request${responseParam}) {
+    const user = await this.magicLinkService.redeem(dto);
+    return ${sendLoginResult('this.authService.completeExternalLogin(user, getSessionMetadata(request))')};
+  }
+`
+    : ''
+}
+${
+  cookies
+    ? `  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto, @Req() request: Request${responseParam}) {
+    const refreshToken = dto.refreshToken ?? getRefreshTokenCookie(request);
+    if (!refreshToken) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return setAuthCookies(response, await this.authService.refresh(refreshToken, getSessionMetadata(request)));
+  }
+
+  // Public so an expired access token does not prevent signing out
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() dto: RefreshTokenDto, @Req() request: Request${responseParam}) {
+    clearAuthCookies(response);
+    const refreshToken = dto.refreshToken ?? getRefreshTokenCookie(request);
+    if (refreshToken) {
+      await this.authService.logout(refreshToken);
+    }
+  }
+`
+    : `  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  refresh(@Body() dto: RefreshTokenDto, @Req() request: Request) {
+    return this.authService.refresh(dto.refreshToken, getSessionMetadata(request));
+  }
+
+  // Public so an expired access token does not prevent signing out
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  logout(@Body() dto: RefreshTokenDto) {
+    return this.authService.logout(dto.refreshToken);
+  }
+`
+}
+  // Public like logout: holding the token is enough to give it up
+  @Public()
+  @Post('revoke')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(@Body() dto: RevokeTokenDto) {
+    return this.authService.revokeAccessToken(dto);
+  }${
+    passwords
+      ? `
+
+  // Always 202, whether or not the email belongs to an account
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return this.passwordResetService.requestReset(dto);
+  }
+
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.passwordResetService.resetPassword(dto);
+  }`
+      : ''
+  }${
+    config.emailVerification
+      ? `
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  verifyEmail(@Body() dto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(dto);
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.ACCEPTED)
+  resendVerification(@CurrentUser() user: AuthenticatedUser) {
+    return this.emailVerificationService.resend(user.userId);
+  }`
+      : ''
+  }
+
+  @Get('me')
+  me(@CurrentUser() user: AuthenticatedUser) {
+    return user;
+  }
+}
+`;
+}
+
+export function generateSessionService(config: AuthTemplateConfig): string {
+  return `import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, User } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { Request } from 'express';
+import { PrismaService } from '../database/prisma.service';
+import { JwtTokenService } from './jwt.service';
+import { TokenDenylist } from './token-denylist/token-denylist';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export function getSessionMetadata(request: Request): SessionMetadata {
+  return {
+    userAgent: request.headers['user-agent'],
+    ipAddress: request.ip,
+  };
+}
+
+export interface IssuedSession {
+  /** Identifies the signed-in device across refreshes; the sid claim of access tokens */
+  familyId: string;
+  refreshToken: string;
+}
+
+export interface RotatedSession extends IssuedSession {
+  user: User;
+}
+
+/**
+ * A signed-in device as listed to its user. The id is the token family, so it
+ * stays the same across refreshes.
+ */
+export interface SessionSummary {
+  id: string;
+  /** e.g. "Firefox on Windows", from the user agent */
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: Date;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+/**
+ * Refresh token sessions. Each login starts a token family; every refresh
+ * marks the current session as rotated and adds a new one to the family.
+ * Only SHA-256 hashes of refresh tokens are stored.
+ *
+ * Access tokens carry the family as their sid claim. Revoking a session
+ * adds its sid to the TokenDenylist, which rejects its access tokens at
+ * once. JwtStrategy also checks isActive(), whose answer is cached for
+ * SESSION_CHECK_TTL seconds, for sessions that end without being revoked.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly checkTtl = Number(process.env.SESSION_CHECK_TTL ?? 30);
+  /** familyId -> whether it was active, and until when that answer is used */
+  private readonly checks = new Map<string, { active: boolean; expiresAt: number }>();
+
+  constructor(
+    private prisma: PrismaService,
+    private tokens: JwtTokenService,
+    private denylist: TokenDenylist,
+  ) {}
+
+  /**
+   * Create a session and return its raw refresh token. Without a familyId
+   * a new token family is started.
+   */
+  async create(
+    userId: string,
+    metadata: SessionMetadata,
+    familyId: string = randomUUID(),
+  ): Promise<IssuedSession> {
+    const refreshToken = this.tokens.generateRefreshToken();
+
+    await this.prisma.session.create({
+      data: {
+        userId,
+        familyId,
+        refreshTokenHash: this.tokens.hashRefreshToken(refreshToken),
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+        expiresAt: this.tokens.getRefreshTokenExpiry(),
+      },
+    });
+
+    return { familyId, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family. A token that
+   * was already rotated is being replayed, most likely because it leaked:
+   * the whole family is revoked so neither party can keep using it.
+   */
+  async rotate(refreshToken: string, metadata: SessionMetadata): Promise<RotatedSession> {
+    const session = await this.prisma.session.findUnique({
+      where: { refreshTokenHash: this.tokens.hashRefreshToken(refreshToken) },
+      include: { user: true },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (session.rotatedAt) {
+      await this.revokeFamily(session.familyId);
+      this.logger.warn(\`Refresh token reuse detected, revoked session family \${session.familyId}\`);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Only one request can rotate a session; a concurrent one counts as reuse
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: session.id, rotatedAt: null, revokedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (count === 0) {
+      await this.revokeFamily(session.familyId);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return {
+      user: session.user,
+      ...(await this.create(session.userId, metadata, session.familyId)),
+    };
+  }
+
+  /**
+   * Whether the session family can still be used, recording that it was
+   * seen. Answers are cached for SESSION_CHECK_TTL seconds per instance.
+   */
+  async isActive(familyId: string): Promise<boolean> {
+    const cached = this.checks.get(familyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.active;
+    }
+
+    // The latest session of an active family is neither rotated nor revoked
+    const now = new Date();
+    const { count } = await this.prisma.session.updateMany({
+      where: { familyId, rotatedAt: null, revokedAt: null, expiresAt: { gt: now } },
+      data: { lastSeenAt: now },
+    });
+
+    this.pruneChecks();
+    this.checks.set(familyId, { active: count > 0, expiresAt: Date.now() + this.checkTtl * 1000 });
+    return count > 0;
+  }
+
+  /**
+   * The user's signed-in devices, most recently seen first
+   */
+  async list(userId: string, currentFamilyId?: string): Promise<SessionSummary[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, rotatedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.familyId,
+      device: describeDevice(session.userAgent),
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      lastSeenAt: session.lastSeenAt,
+      current: session.familyId === currentFamilyId,
+    }));
+  }
+
+  /**
+   * Sign out one of the user's devices
+   */
+  async revoke(userId: string, familyId: string): Promise<void> {
+    const count = await this.revokeWhere({ userId, familyId });
+    if (count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Sign out every device of the user except the current one
+   */
+  async revokeOthers(userId: string, currentFamilyId?: string): Promise<void> {
+    await this.revokeWhere({ userId, familyId: { not: currentFamilyId } });
+  }
+
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const session = await this.prisma.session.findUnique({
+      where: { refreshTokenHash: this.tokens.hashRefreshToken(refreshToken) },
+    });
+    if (session) {
+      await this.revokeFamily(session.familyId);
+    }
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.revokeWhere({ familyId });
+  }
+
+  /**
+   * Sign the user out everywhere, e.g. after a password change
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.revokeWhere({ userId });
+  }${
+    config.rbac
+      ? `
+
+  /**
+   * Sign a user out everywhere on an admin's request${config.multitenant ? '. Admins of a tenant\n   * can only revoke its users.' : ''}
+   */
+  async revokeUser(userId: string${config.multitenant ? ', tenantId?: string' : ''}): Promise<void> {
+    const user = await this.prisma.user.findFirst({ where: { id: userId${config.multitenant ? ', tenantId' : ''} } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    await this.revokeAllForUser(userId);
+  }`
+      : ''
+  }
+
+  /**
+   * Delete expired and revoked sessions. Rotated sessions are kept until
+   * they expire so that replaying their tokens is still detected.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeExpired(): Promise<number> {
+    const now = new Date();
+    const { count } = await this.prisma.session.deleteMany({
+      where: { OR: [{ expiresAt: { lt: now } }, { revokedAt: { lt: now } }] },
+    });
+
+    if (count > 0) {
+      this.logger.log(\`Removed \${count} expired or revoked sessions\`);
+    }
+    return count;
+  }
+
+  /**
+   * Revoke the matching sessions and deny their sid until every access
+   * token issued for them has expired. Returns the number of sessions revoked.
+   */
+  private async revokeWhere(where: Prisma.SessionWhereInput): Promise<number> {
+    const families = await this.prisma.session.findMany({
+      where: { ...where, revokedAt: null },
+      select: { familyId: true },
+      distinct: ['familyId'],
+    });
+    const { count } = await this.prisma.session.updateMany({
+      where: { ...where, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const expiresAt = new Date(Date.now() + this.tokens.accessTokenTtl * 1000);
+    for (const { familyId } of families) {
+      await this.denylist.add(familyId, expiresAt);
+      this.checks.delete(familyId);
+    }
+    return count;
+  }
+
+  private pruneChecks(): void {
+    const now = Date.now();
+    for (const [familyId, check] of this.checks) {
+      if (check.expiresAt <= now) {
+        this.checks.delete(familyId);
+      }
+    }
+  }
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\\//, 'Edge'],
+  [/OPR\\/|Opera/, 'Opera'],
+  [/Firefox\\//, 'Firefox'],
+  [/Chrome\\//, 'Chrome'],
+  [/Safari\\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * A short label for a user agent: "Chrome on Android", or the client name
+ * for non-browsers ("curl")
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) {
+    return \`\${browser} on \${system}\`;
+  }
+  return browser ?? system ?? userAgent.split(/[\\s/]/)[0];
+}
+`;
+}
+
+export function generatePasswordResetService(config: AuthTemplateConfig): string {
+  return `import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { BCRYPT_ROUNDS } from './auth.service';
+import { SessionService } from './session.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+
+/**
+ * Two-step password reset. Reset tokens are random, single use and expire
+ * after PASSWORD_RESET_EXPIRATION seconds; only their SHA-256 hash is stored
+ * in the PasswordResetToken model.
+ */
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+  private readonly tokenTtl = Number(process.env.PASSWORD_RESET_EXPIRATION ?? 3600);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailer: MailerService,
+    private sessions: SessionService,
+  ) {}
+
+  /**
+   * Email a reset link. Unknown emails are ignored silently so the endpoint
+   * does not reveal which addresses have an account.
+   */
+  async requestReset(dto: ForgotPasswordDto): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: dto.email.toLowerCase() },
+    });
+    if (!user) {
+      return;
+    }
+
+    // Only the most recent link works
+    await this.prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } });
+
+    const token = randomBytes(32).toString('base64url');
+    await this.prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + this.tokenTtl * 1000),
+      },
+    });
+
+    const resetUrl = new URL(process.env.PASSWORD_RESET_URL ?? 'http://localhost:3000/reset-password');
+    resetUrl.searchParams.set('token', token);
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        'Someone asked to reset the password of your account.',
+        \`Open this link to choose a new password: \${resetUrl}\`,
+        \`The link expires in \${Math.round(this.tokenTtl / 60)} minutes. If you did not ask for it, ignore this email.\`,
+      ].join('\\n\\n'),
+    });
+  }
+
+  /**
+   * Set a new password with a reset token, then sign the user out everywhere
+   */
+  async resetPassword(dto: ResetPasswordDto): Promise<void> {
+    const tokenHash = hashToken(dto.token);
+
+    // Marking the token used is the check, so a token cannot be redeemed twice
+    const { count } = await this.prisma.passwordResetToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired password reset token');
+    }
+
+    const { userId } = await this.prisma.passwordResetToken.findUniqueOrThrow({
+      where: { tokenHash },
+    });
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await bcrypt.hash(dto.password, BCRYPT_ROUNDS) },
+    });
+    await this.sessions.revokeAllForUser(userId);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeExpired(): Promise<number> {
+    const { count } = await this.prisma.passwordResetToken.deleteMany({
+      where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] },
+    });
+
+    if (count > 0) {
+      this.logger.log(\`Removed \${count} used or expired password reset tokens\`);
+    }
+    return count;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+`;
+}
+
+export function generateMagicLinkService(config: AuthTemplateConfig): string {
+  // With passwords too, an unverified account may have been registered by
+  // someone else: redeeming a link hands it over to the owner of the address
+  const takeOverUnverified = config.emailVerification && hasPasswordLogin(config);
+
+  return `import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { MagicLinkRequestDto } from './dto/magic-link-request.dto';
+import { MagicLinkVerifyDto } from './dto/magic-link-verify.dto';
+
+/**
+ * Passwordless sign-in. Links carry a random token that works once and
+ * expires after MAGIC_LINK_EXPIRATION seconds; only its SHA-256 hash is
+ * stored in the MagicLinkToken model.
+ */
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+  private readonly tokenTtl = Number(process.env.MAGIC_LINK_EXPIRATION ?? 900);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailer: MailerService,
+  ) {}
+
+  /**
+   * Email a sign-in link. Unknown emails are ignored silently so the endpoint
+   * does not reveal which addresses have an account.
+   */
+  async requestLink(dto: MagicLinkRequestDto): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: dto.email.toLowerCase() },
+    });
+    if (!user) {
+      return;
+    }${
+      config.multitenant
+        ? `
+
+    // A sign-in link for a tenant cannot sign in the user of another tenant
+    if (dto.tenantId && user.tenantId !== dto.tenantId) {
+      return;
+    }`
+        : ''
+    }
+
+    await this.sendLink(user);
+  }
+
+  async sendLink(user: User): Promise<void> {
+    // Only the most recent link works
+    await this.prisma.magicLinkToken.deleteMany({ where: { userId: user.id, usedAt: null } });
+
+    const token = randomBytes(32).toString('base64url');
+    await this.prisma.magicLinkToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + this.tokenTtl * 1000),
+      },
+    });
+
+    const signInUrl = new URL(process.env.MAGIC_LINK_URL ?? 'http://localhost:3000/magic-link');
+    signInUrl.searchParams.set('token', token);
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Your sign-in link',
+      text: [
+        \`Open this link to sign in: \${signInUrl}\`,
+        \`The link works once and expires in \${Math.round(this.tokenTtl / 60)} minutes. If you did not ask for it, ignore this email.\`,
+      ].join('\\n\\n'),
+    });
+  }
+
+  /**
+   * Redeem a sign-in link and return its user
+   */
+  async redeem(dto: MagicLinkVerifyDto): Promise<User> {
+    const tokenHash = hashToken(dto.token);
+
+    // Marking the token used is the check, so a link cannot be redeemed twice
+    const { count } = await this.prisma.magicLinkToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+
+    const { user } = await this.prisma.magicLinkToken.findUniqueOrThrow({
+      where: { tokenHash },
+      include: { user: true },
+    });${
+      config.emailVerification
+        ? `
+
+    // Opening the link proves the user owns the address${
+      takeOverUnverified
+        ? `; a password set before
+    // that may belong to someone else, so it is dropped with its sessions`
+        : ''
+    }
+    if (!user.emailVerifiedAt) {
+      return this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          emailVerifiedAt: new Date(),${
+            takeOverUnverified ? '\n          passwordHash: null,\n          sessions: { deleteMany: {} },' : ''
+          }
+        },
+      });
+    }`
+        : ''
+    }
+    return user;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeExpired(): Promise<number> {
+    const { count } = await this.prisma.magicLinkToken.deleteMany({
+      where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] },
+    });
+
+    if (count > 0) {
+      this.logger.log(\`Removed \${count} used or expired sign-in links\`);
+    }
+    return count;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+`;
+}
+
+export function generateJwtService(config: AuthTemplateConfig): string {
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID } from 'crypto';${
+    hasAsymmetricJwt(config) ? "\nimport { JWT_KEY_ALGORITHMS, JwtKeyStore } from './jwt-keys';" : ''
+  }
+import { TokenDenylist } from './token-denylist/token-denylist';
+
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  /** Session (token family) the token was issued for; revoking the session rejects the token */
+  sid: string;
+  /** Unique token id, set when signing; revoking the token denies it */
+  jti: string;${config.rbac ? '\n  roles?: string[];' : ''}${config.multitenant ? '\n  tenant_id?: string;' : ''}
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Issues access tokens (signed JWTs) and refresh tokens (opaque random
+ * strings, stored only as a SHA-256 hash in the sessions table). Access
+ * tokens whose jti or sid is in the TokenDenylist are rejected.
+ */
+@Injectable()
+export class JwtTokenService {
+  readonly accessTokenTtl = Number(process.env.JWT_EXPIRATION ?? 3600);
+  private readonly refreshTokenTtl = Number(process.env.JWT_REFRESH_EXPIRATION ?? 60 * 60 * 24 * 30);
+
+${
+    hasAsymmetricJwt(config)
+      ? `  constructor(
+    private jwtService: JwtService,
+    private keys: JwtKeyStore,
+    private denylist: TokenDenylist,
+  ) {}
+
+  signAccessToken(payload: Omit<JwtPayload, 'jti'>): Promise<string> {
+    const { kid, alg, privateKey } = this.keys.signingKey;
+    return this.jwtService.signAsync(payload, { algorithm: alg, privateKey, keyid: kid, jwtid: randomUUID() });
+  }
+
+  /**
+   * Verify the signature and expiry, then check the denylist like JwtStrategy
+   */
+  async verifyAccessToken(token: string): Promise<JwtPayload> {
+    const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
+      publicKey: this.keys.getVerificationKey(token),
+      algorithms: [...JWT_KEY_ALGORITHMS],
+    });`
+      : `  constructor(
+    private jwtService: JwtService,
+    private denylist: TokenDenylist,
+  ) {}
+
+  signAccessToken(payload: Omit<JwtPayload, 'jti'>): Promise<string> {
+    return this.jwtService.signAsync(payload, { jwtid: randomUUID() });
+  }
+
+  /**
+   * Verify the signature and expiry, then check the denylist like JwtStrategy
+   */
+  async verifyAccessToken(token: string): Promise<JwtPayload> {
+    const payload = await this.jwtService.verifyAsync<JwtPayload>(token);`
+  }
+    if (await this.isRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+    return payload;
+  }
+
+  /**
+   * Whether the token or its session was revoked. Tokens signed before jti
+   * and sid claims were added count as revoked.
+   */
+  async isRevoked(payload: JwtPayload): Promise<boolean> {
+    if (!payload.jti || !payload.sid) {
+      return true;
+    }
+    return this.denylist.has([payload.jti, payload.sid]);
+  }
+
+  /**
+   * Deny an access token until it expires. Invalid or already revoked tokens
+   * are ignored: there is nothing left to revoke (RFC 7009).
+   */
+  async revokeAccessToken(token: string): Promise<void> {
+    let payload: JwtPayload & { exp: number };
+    try {
+      payload = (await this.verifyAccessToken(token)) as JwtPayload & { exp: number };
+    } catch {
+      return;
+    }
+    await this.denylist.add(payload.jti, new Date(payload.exp * 1000));
+  }
+
+  generateRefreshToken(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  hashRefreshToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.refreshTokenTtl * 1000);
+  }
+}
+`;
+}
+
+export function generateAuthGuard(config: AuthTemplateConfig): string {
+  return `import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { IS_PUBLIC_KEY } from './public.decorator';${
+    config.apiKeys
+      ? `
+import { API_KEY_ROUTE_KEY, ApiKeyRoute } from './api-key.decorator';
+import { ApiKeyGuard, JwtOrApiKeyGuard } from './api-key.guard';`
+      : ''
+  }
+
+/**
+ * Registered globally as APP_GUARD: every route requires a valid${
+    hasSupabaseAuth(config) ? ' Supabase Auth' : ', unrevoked'
+  }
+ * JWT (see JwtStrategy) unless it is marked with @Public()${
+    config.apiKeys
+      ? `. Routes marked with @AllowApiKey() also
+ * accept an X-API-Key, and @RequireApiKey() routes accept only that.`
+      : ''
+  }
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(${
+    config.apiKeys
+      ? `
+    private reflector: Reflector,
+    private apiKeyGuard: ApiKeyGuard,
+    private jwtOrApiKeyGuard: JwtOrApiKeyGuard,
+  `
+      : 'private reflector: Reflector'
+  }) {
+    super();
+  }
+
+  canActivate(context: ExecutionContext) {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+${
+  config.apiKeys
+    ? `
+    const apiKeyRoute = this.reflector.getAllAndOverride<ApiKeyRoute | undefined>(API_KEY_ROUTE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (apiKeyRoute) {
+      return (apiKeyRoute.apiKeyOnly ? this.apiKeyGuard : this.jwtOrApiKeyGuard).canActivate(context);
+    }
+`
+    : ''
+}
+    return super.canActivate(context);
+  }
+}
+`;
+}
+
+export function generatePublicDecorator(config: AuthTemplateConfig): string {
+  return `import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+`;
+}
+
+export function generateLoginRedirect(config: AuthTemplateConfig): string {
+  return `/**
+ * URL to send the browser to after a social or SSO login. The result goes in
+ * the URL fragment, which is not sent to servers or in Referer headers.
+ */
+export function buildLoginRedirectUrl(baseUrl: string, result: object): string {
+  const url = new URL(baseUrl);
+  url.hash = new URLSearchParams(
+    Object.entries(result).map(([key, value]) => [key, String(value)]),
+  ).toString();
+  return url.toString();
+}
+`;
+}
+
+export function generateCurrentUserDecorator(config: AuthTemplateConfig): string {
+  return `import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * The user authenticated by JwtAuthGuard, e.g. \`me(@CurrentUser() user: AuthenticatedUser)\`
+ */
+export const CurrentUser = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AuthenticatedUser => {
+    return ctx.switchToHttp().getRequest().user;
+  },
+);
+`;
+}
+
+export function generateEmailVerificationService(config: AuthTemplateConfig): string {
+  return `import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+
+/**
+ * Email verification. Registration sends a link with a random token; only its
+ * SHA-256 hash is stored in the EmailVerificationToken model. Redeeming it sets
+ * User.emailVerifiedAt, which EmailVerifiedGuard checks for routes marked with
+ * @RequireVerifiedEmail().
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+  private readonly tokenTtl = Number(process.env.EMAIL_VERIFICATION_EXPIRATION ?? 60 * 60 * 24);
+  private readonly resendInterval = Number(process.env.EMAIL_VERIFICATION_RESEND_INTERVAL ?? 60);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailer: MailerService,
+  ) {}
+
+  /**
+   * Replace any pending token of the user and email a new verification link
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    await this.prisma.emailVerificationToken.deleteMany({ where: { userId: user.id } });
+
+    const token = randomBytes(32).toString('base64url');
+    await this.prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + this.tokenTtl * 1000),
+      },
+    });
+
+    const verifyUrl = new URL(process.env.EMAIL_VERIFICATION_URL ?? 'http://localhost:3000/verify-email');
+    verifyUrl.searchParams.set('token', token);
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        'Welcome! Please confirm that this is your email address.',
+        \`Open this link to verify it: \${verifyUrl}\`,
+        \`The link expires in \${Math.round(this.tokenTtl / 3600)} hours.\`,
+      ].join('\\n\\n'),
+    });
+  }
+
+  async verify(dto: VerifyEmailDto): Promise<void> {
+    const token = await this.prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(dto.token) },
+    });
+    if (!token || token.expiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired email verification token');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: token.userId },
+        data: { emailVerifiedAt: new Date() },
+      }),
+      this.prisma.emailVerificationToken.deleteMany({ where: { userId: token.userId } }),
+    ]);
+  }
+
+  /**
+   * Send a new link, at most once every EMAIL_VERIFICATION_RESEND_INTERVAL seconds
+   */
+  async resend(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email address is already verified');
+    }
+
+    const latest = await this.prisma.emailVerificationToken.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (latest && Date.now() - latest.createdAt.getTime() < this.resendInterval * 1000) {
+      throw new HttpException(
+        'A verification email was sent recently, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeExpired(): Promise<number> {
+    const { count } = await this.prisma.emailVerificationToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (count > 0) {
+      this.logger.log(\`Removed \${count} expired email verification tokens\`);
+    }
+    return count;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+`;
+}
+
+export function generateRequireVerifiedEmailDecorator(config: AuthTemplateConfig): string {
+  return `import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRE_VERIFIED_EMAIL_KEY = 'requireVerifiedEmail';
+
+/**
+ * Only users who verified their email address can call the route (or every
+ * route of the controller). Enforced by EmailVerifiedGuard.
+ */
+export const RequireVerifiedEmail = () => SetMetadata(REQUIRE_VERIFIED_EMAIL_KEY, true);
+`;
+}
+
+export function generateEmailVerifiedGuard(config: AuthTemplateConfig): string {
+  return `import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from '../database/prisma.service';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from './require-verified-email.decorator';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * Registered globally as APP_GUARD after JwtAuthGuard. Rejects users whose
+ * email is not verified on routes marked with @RequireVerifiedEmail().
+ * The database is checked rather than the JWT, so verifying takes effect
+ * without waiting for a new access token.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<boolean>(REQUIRE_VERIFIED_EMAIL_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required) {
+      return true;
+    }
+
+    const user: AuthenticatedUser | undefined = context.switchToHttp().getRequest().user;
+    const record = user
+      ? await this.prisma.user.findUnique({
+          where: { id: user.userId },
+          select: { emailVerifiedAt: true },
+        })
+      : null;
+    if (!record?.emailVerifiedAt) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    return true;
+  }
+}
+`;
+}
+
+export function generateJWTStrategy(config: AuthTemplateConfig): string {
+  const jwtFromRequest = hasCookieTransport(config)
+    ? `// The Authorization header wins, so API clients can still send bearer tokens
+      jwtFromRequest: ExtractJwt.fromExtractors([ExtractJwt.fromAuthHeaderAsBearerToken(), fromAccessTokenCookie]),`
+    : 'jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),';
+
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';${
+    hasCookieTransport(config) ? "\nimport { fromAccessTokenCookie } from '../auth-cookies';" : ''
+  }${
+    hasAsymmetricJwt(config) ? "\nimport { JWT_KEY_ALGORITHMS, JwtKeyStore } from '../jwt-keys';" : ''
+  }
+import { JwtPayload, JwtTokenService } from '../jwt.service';
+import { SessionService } from '../session.service';
+
+/**
+ * What validate() returns; Passport sets it as request.user
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  /** Session (token family) of the access token${config.apiKeys ? '; unset for API keys' : ''} */
+  sessionId${config.apiKeys ? '?' : ''}: string;${config.rbac ? '\n  roles: string[];' : ''}${config.multitenant ? '\n  tenantId?: string;' : ''}${
+    config.apiKeys
+      ? `
+  /** Set when the request authenticated with an X-API-Key instead of a JWT */
+  apiKey?: { id: string; scopes: string[] };`
+      : ''
+  }
+}
+
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy) {${
+    hasAsymmetricJwt(config)
+      ? `
+  constructor(
+    keys: JwtKeyStore,
+    private tokens: JwtTokenService,
+    private sessions: SessionService,
+  ) {
+    super({
+      ${jwtFromRequest}
+      ignoreExpiration: false,
+      algorithms: [...JWT_KEY_ALGORITHMS],
+      // The public key is chosen by the kid in the token header
+      secretOrKeyProvider: (request: unknown, rawJwtToken: string, done: (err: unknown, key?: string) => void) => {
+        try {
+          done(null, keys.getVerificationKey(rawJwtToken));
+        } catch (error) {
+          done(error);
+        }
+      },
+    });
+  }`
+      : `
+  constructor(
+    private tokens: JwtTokenService,
+    private sessions: SessionService,
+  ) {
+    super({
+      ${jwtFromRequest}
+      ignoreExpiration: false,
+      secretOrKey: process.env.JWT_SECRET,
+    });
+  }`
+  }
+
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    // Logout, password resets and admin revocation deny the token or its
+    // session at once
+    if (await this.tokens.isRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+    // Sessions that end otherwise (expiry, pruning) within SESSION_CHECK_TTL seconds
+    if (!(await this.sessions.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      sessionId: payload.sid,${config.rbac ? '\n      roles: payload.roles ?? [],' : ''}${config.multitenant ? '\n      tenantId: payload.tenant_id,' : ''}
+    };
+  }
+}
+`;
+}
+
+export function generateJwtKeyStore(config: AuthTemplateConfig): string {
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { readFileSync } from 'fs';
+
+export const JWT_KEY_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export interface JwtKey {
+  kid: string;
+  alg: typeof JWT_KEY_ALGORITHMS[number];
+  status: 'active' | 'next' | 'retiring';
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * Access token signing keys, loaded at startup from JWT_KEYS (the key set as
+ * JSON) or the file at JWT_KEYS_FILE. Manage the set with
+ * \`npx auth-bp-nest keys generate|promote|retire\` and restart to apply:
+ * - active: signs new tokens (exactly one)
+ * - next: published in the JWKS before it signs, so verifiers already know it
+ * - retiring: no longer signs, still verifies the tokens it signed
+ */
+@Injectable()
+export class JwtKeyStore {
+  readonly signingKey: JwtKey;
+  private readonly keys: JwtKey[];
+  private readonly jwks: { keys: JsonWebKey[] };
+
+  constructor() {
+    this.keys = loadKeys();
+
+    const active = this.keys.filter((key) => key.status === 'active');
+    if (active.length !== 1) {
+      throw new Error(\`The JWT key set needs exactly one active key, found \${active.length}\`);
+    }
+    this.signingKey = active[0];
+
+    this.jwks = {
+      keys: this.keys.map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Public key for a token, chosen by the kid in its header. The token's alg
+   * must be the key's, so a token cannot choose how it is verified.
+   */
+  getVerificationKey(token: string): string {
+    const header = decodeHeader(token);
+    const key = this.keys.find((candidate) => candidate.kid === header?.kid);
+    if (!key || key.alg !== header?.alg) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+    return key.publicKey;
+  }
+
+  /**
+   * Public keys served at /.well-known/jwks.json
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    return this.jwks;
+  }
+}
+
+function loadKeys(): JwtKey[] {
+  const json =
+    process.env.JWT_KEYS ?? readFileSync(process.env.JWT_KEYS_FILE ?? 'keys/jwt-keys.json', 'utf8');
+  const keySet = JSON.parse(json) as { keys?: JwtKey[] };
+  if (!Array.isArray(keySet.keys)) {
+    throw new Error('Invalid JWT key set: expected a "keys" array');
+  }
+  return keySet.keys;
+}
+
+function decodeHeader(token: string): { kid?: string; alg?: string } | null {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+`;
+}
+
+export function generateJwksController(config: AuthTemplateConfig): string {
+  return `import { Controller, Get, Header } from '@nestjs/common';
+import { JwtKeyStore } from './jwt-keys';
+import { Public } from './public.decorator';
+
+/**
+ * Public keys for services that verify access tokens themselves, e.g. with
+ * jose's createRemoteJWKSet(new URL('https://api.example.com/.well-known/jwks.json'))
+ */
+@Public()
+@Controller('.well-known')
+export class JwksController {
+  constructor(private keys: JwtKeyStore) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  jwks() {
+    return this.keys.getJwks();
+  }
+}
+`;
+}
+
+export function generateSessionController(config: AuthTemplateConfig): string {
+  return `import { Controller, Delete, Get, HttpCode, HttpStatus, Param, Post } from '@nestjs/common';${
+    config.rbac ? "\nimport { Roles } from '../rbac/roles.decorator';" : ''
+  }
+import { CurrentUser } from './current-user.decorator';
+import { SessionService } from './session.service';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * The signed-in user's devices. A session id is its token family, which
+ * access tokens carry as the sid claim.${config.rbac ? ' Admins can also sign any user out.' : ''}
+ */
+@Controller('auth/sessions')
+export class SessionController {
+  constructor(private sessions: SessionService) {}
+
+  @Get()
+  list(@CurrentUser() user: AuthenticatedUser) {
+    return this.sessions.list(user.userId, user.sessionId);
+  }
+
+  // Revoking the current session signs this device out too
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(@CurrentUser() user: AuthenticatedUser, @Param('id') id: string) {
+    return this.sessions.revoke(user.userId, id);
+  }
+
+  @Post('revoke-others')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revokeOthers(@CurrentUser() user: AuthenticatedUser) {
+    return this.sessions.revokeOthers(user.userId, user.sessionId);
+  }${
+    config.rbac
+      ? `
+
+  @Delete('users/:userId')
+  @Roles('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revokeUser(${config.multitenant ? '@CurrentUser() user: AuthenticatedUser, ' : ''}@Param('userId') userId: string) {
+    return this.sessions.revokeUser(userId${config.multitenant ? ', user.tenantId' : ''});
+  }`
+      : ''
+  }
+}
+`;
+}
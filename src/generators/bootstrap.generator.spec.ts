@@ -0,0 +1,57 @@
+import 'reflect-metadata';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import { generateAuthExceptionFilter } from './bootstrap.generator';
+
+describe('generated AuthExceptionFilter', () => {
+  let code: GeneratedCode;
+  let filter: any;
+
+  /** The JSON body the filter responds with */
+  function respond(exception: Error): Record<string, unknown> {
+    let body: Record<string, unknown> = {};
+    const response = {
+      status: () => response,
+      json: (json: Record<string, unknown>) => {
+        body = json;
+      },
+    };
+    const host = {
+      switchToHttp: () => ({ getResponse: () => response, getRequest: () => ({ url: '/auth/mfa/verify' }) }),
+    };
+    filter.catch(exception, host);
+    return body;
+  }
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({ 'common/filters/auth-exception.filter.ts': generateAuthExceptionFilter() });
+    const { AuthExceptionFilter } = code.load('common/filters/auth-exception.filter');
+    filter = new AuthExceptionFilter();
+  });
+
+  afterAll(() => code.remove());
+
+  it('hides the reason of a bare 401 from passport or the JWT checks', () => {
+    expect(respond(new UnauthorizedException())).toMatchObject({
+      statusCode: 401,
+      error: 'Unauthorized',
+      message: 'Authentication required',
+      path: '/auth/mfa/verify',
+    });
+  });
+
+  it('keeps the message of a 401 thrown on purpose', () => {
+    expect(respond(new UnauthorizedException('Invalid MFA code'))).toMatchObject({
+      statusCode: 401,
+      message: 'Invalid MFA code',
+    });
+  });
+
+  it('keeps the message of a 403', () => {
+    expect(respond(new ForbiddenException('This tenant does not allow sign-up'))).toMatchObject({
+      statusCode: 403,
+      error: 'Forbidden',
+      message: 'This tenant does not allow sign-up',
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import chalk from 'chalk';
+import { writeFile, ensureDir, readCurrentFile } from '../utils/file-generator';
+import { SourceEditor } from '../utils/ast-editor';
+import { NestProjectLayout, getSourceDir } from '../utils/nest-project';
+
+/**
+ * BootstrapGenerator
+ *
+ * Hardens the application bootstrap. The hardening itself lives in a generated
+ * common/configure-app.ts (global ValidationPipe, CORS from the environment,
+ * helmet and an exception filter for auth errors); main.ts in the source root
+ * is created or patched to call configureApp(app) right after NestFactory.create().
+ */
+
+/**
+ * Write configure-app.ts and the auth exception filter
+ */
+export async function generateBootstrapFiles(sourceDir: string): Promise<void> {
+  const commonDir = path.join(sourceDir, 'common');
+  await ensureDir(path.join(commonDir, 'filters'));
+
+  await writeFile(path.join(commonDir, 'configure-app.ts'), generateConfigureApp());
+  await writeFile(
+    path.join(commonDir, 'filters', 'auth-exception.filter.ts'),
+    generateAuthExceptionFilter()
+  );
+  console.log(chalk.green('✓ Bootstrap hardening created: common/configure-app.ts'));
+}
+
+/**
+ * Create main.ts in the source root, or patch an existing one to call configureApp(app)
+ */
+export async function registerInMain(
+  projectRoot: string,
+  layout: NestProjectLayout
+): Promise<void> {
+  const mainPath = path.join(getSourceDir(projectRoot, layout), 'main.ts');
+  const displayPath = `${layout.sourceRoot}/main.ts`;
+  const source = await readCurrentFile(mainPath);
+
+  if (source === null) {
+    await writeFile(mainPath, generateMain(), { tracked: false });
+    console.log(chalk.green(`✓ ${displayPath} created`));
+    return;
+  }
+
+  for (const setting of findConflictingSettings(source)) {
+    console.log(
+      chalk.yellow(`⚠️  ${displayPath} already calls ${setting}(), configureApp(app) applies it as well`)
+    );
+  }
+
+  const patched = patchMain(source);
+  if (patched === source) {
+    console.log(chalk.gray(`✓ ${displayPath} already up to date`));
+    return;
+  }
+
+  await writeFile(mainPath, patched, { tracked: false });
+  console.log(chalk.green(`✓ configureApp(app) registered in ${displayPath}`));
+}
+
+/**
+ * Insert `configureApp(app);` after the `NestFactory.create()` declaration
+ */
+export function patchMain(source: string): string {
+  const editor = new SourceEditor('main.ts', source);
+  let alreadyConfigured = false;
+  let declaration: ts.VariableStatement | undefined;
+  let appName: string | undefined;
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'configureApp'
+    ) {
+      alreadyConfigured = true;
+    }
+
+    if (!declaration && ts.isVariableStatement(node)) {
+      for (const variable of node.declarationList.declarations) {
+        if (
+          ts.isIdentifier(variable.name) &&
+          variable.initializer &&
+          isNestFactoryCreate(variable.initializer)
+        ) {
+          declaration = node;
+          appName = variable.name.text;
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(editor.sourceFile);
+
+  if (alreadyConfigured) {
+    return source;
+  }
+  if (!declaration || !appName) {
+    throw new Error(
+      'Could not find `const app = await NestFactory.create(...)` in main.ts. ' +
+        'Call configureApp(app) from ./common/configure-app yourself'
+    );
+  }
+
+  const indent = editor.indentationAt(declaration.getStart());
+  editor.insert(declaration.getEnd(), `\n${indent}configureApp(${appName});`);
+  editor.ensureNamedImport('configureApp', './common/configure-app');
+
+  return editor.apply();
+}
+
+function isNestFactoryCreate(expression: ts.Expression): boolean {
+  const call = ts.isAwaitExpression(expression) ? expression.expression : expression;
+  return (
+    ts.isCallExpression(call) &&
+    ts.isPropertyAccessExpression(call.expression) &&
+    ts.isIdentifier(call.expression.expression) &&
+    call.expression.expression.text === 'NestFactory' &&
+    call.expression.name.text === 'create'
+  );
+}
+
+/**
+ * Settings main.ts applies itself that configureApp() also applies
+ */
+function findConflictingSettings(source: string): string[] {
+  return ['useGlobalPipes', 'enableCors'].filter((setting) =>
+    new RegExp(`\\.${setting}\\s*\\(`).test(source)
+  );
+}
+
+function generateMain(): string {
+  return `import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { configureApp } from './common/configure-app';
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  configureApp(app);
+  await app.listen(process.env.PORT ?? 3000);
+}
+bootstrap();
+`;
+}
+
+function generateConfigureApp(): string {
+  return `import { INestApplication, ValidationPipe } from '@nestjs/common';
+import helmet from 'helmet';
+import { AuthExceptionFilter } from './filters/auth-exception.filter';
+
+/**
+ * Security defaults applied to the Nest application at bootstrap.
+ *
+ * CORS is configured from the environment:
+ * - CORS_ORIGINS: comma-separated list of allowed origins (CORS is disabled when empty)
+ * - CORS_CREDENTIALS: "true" to allow cookies and Authorization headers cross-origin
+ */
+export function configureApp(app: INestApplication): void {
+  app.use(helmet());
+
+  const origins = (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  app.enableCors({
+    origin: origins.length > 0 ? origins : false,
+    credentials: process.env.CORS_CREDENTIALS === 'true',
+  });
+
+  // Enforce the class-validator decorators on every DTO
+  app.useGlobalPipes(
+    new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+    })
+  );
+
+  app.useGlobalFilters(new AuthExceptionFilter());
+}
+`;
+}
+
+export function generateAuthExceptionFilter(): string {
+  return `import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+
+/**
+ * Returns the same response shape for every authentication and
+ * authorization failure. A bare 401 from passport or the JWT checks becomes
+ * "Authentication required", without the underlying reason (missing,
+ * malformed or expired token...); the 401s the auth services throw with a
+ * message of their own keep it.
+ */
+@Catch(UnauthorizedException, ForbiddenException)
+export class AuthExceptionFilter implements ExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    const context = host.switchToHttp();
+    const response = context.getResponse<Response>();
+    const request = context.getRequest<Request>();
+    const statusCode = exception.getStatus();
+    const unauthorized = statusCode === 401;
+
+    response.status(statusCode).json({
+      statusCode,
+      error: unauthorized ? 'Unauthorized' : 'Forbidden',
+      message: unauthorized && exception.message === 'Unauthorized' ? 'Authentication required' : exception.message,
+      path: request.url,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+`;
+}
@@ -1,29 +1,32 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { AuthBPConfig } from '../prompts';
+import { normalizeConfig } from '../utils/config-validator';
+import { writeFile } from '../utils/file-generator';
+
+/**
+ * Version of the installed generator, recorded in .auth-bp-config.json
+ * so `upgrade` knows which migrations a scaffold still needs
+ */
+export const GENERATOR_VERSION: string = fs.readJSONSync(
+  path.join(__dirname, '..', '..', 'package.json')
+).version;
 
 export interface AuthBPConfigFile {
   version: string;
   timestamp: string;
-  backend: {
+  backend: AuthBPConfig & {
     framework: string;
-    database: 'supabase' | 'gcloud-sql';
-    whitelabel: boolean;
-    rbac: boolean;
-    multitenant: boolean;
   };
 }
 
 export async function generateConfigFile(
   projectRoot: string,
-  config: {
-    database: 'supabase' | 'gcloud-sql';
-    whitelabel: boolean;
-    rbac: boolean;
-    multitenant: boolean;
-  }
+  config: AuthBPConfig,
+  version: string = GENERATOR_VERSION
 ): Promise<void> {
   const configFile: AuthBPConfigFile = {
-    version: '1.0.0',
+    version,
     timestamp: new Date().toISOString(),
     backend: {
       framework: 'nestjs',
@@ -32,7 +35,9 @@ export async function generateConfigFile(
   };
 
   const configPath = path.join(projectRoot, '.auth-bp-config.json');
-  await fs.writeJSON(configPath, configFile, { spaces: 2 });
+  await writeFile(configPath, JSON.stringify(configFile, null, 2) + '\n', {
+    tracked: false,
+  });
 }
 
 export async function loadConfig(
@@ -45,3 +50,47 @@ export async function loadConfig(
     return null;
   }
 }
+
+/**
+ * Read a user-supplied config file (same shape as .auth-bp-config.json)
+ * and return the validated backend settings
+ */
+export async function readConfigFile(
+  filePath: string
+): Promise<Partial<AuthBPConfig>> {
+  let raw: any;
+  try {
+    raw = await fs.readJSON(filePath);
+  } catch (error: any) {
+    throw new Error(`Could not read config file ${filePath}: ${error.message}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || !raw.backend || typeof raw.backend !== 'object') {
+    throw new Error(`Invalid config file ${filePath}: expected a "backend" object`);
+  }
+
+  const { framework, ...backend } = raw.backend;
+  if (framework !== undefined && framework !== 'nestjs') {
+    throw new Error(
+      `Invalid config file ${filePath}: backend.framework must be "nestjs", got ${JSON.stringify(framework)}`
+    );
+  }
+
+  return normalizeConfig(backend, (key) => `backend.${key} in ${filePath}`);
+}
+
+/**
+ * Compare two dotted version strings numerically (1.10.0 > 1.9.0)
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const right = b.split('.').map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
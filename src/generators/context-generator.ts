@@ -6,17 +6,45 @@
  * and integration points to prevent AI hallucinations.
  */
 
+import {
+  hasAsymmetricJwt,
+  hasCookieTransport,
+  hasLoginAttemptStore,
+  hasMagicLink,
+  hasPasswordLogin,
+  hasSupabaseAuth,
+  JwtAlgorithm,
+  LoginMethod,
+  SocialProvider,
+  TokenTransport,
+} from '../prompts';
+
 export interface AuthBPContextConfig {
   whitelabel: boolean;
   rbac: boolean;
   multitenant: boolean;
   database: 'supabase' | 'gcloud-sql';
+  supabaseAuth?: boolean;
+  hardenMain?: boolean;
+  emailVerification?: boolean;
+  mfa?: boolean;
+  socialProviders?: SocialProvider[];
+  sso?: boolean;
+  loginMethod?: LoginMethod;
+  jwtAlgorithm?: JwtAlgorithm;
+  tokenTransport?: TokenTransport;
+  apiKeys?: boolean;
+  loginProtection?: boolean;
 }
 
 /**
  * Generate .context.md for Auth Module
  */
 export function generateAuthContextMD(config: AuthBPContextConfig): string {
+  if (hasSupabaseAuth(config)) {
+    return generateSupabaseAuthContextMD(config);
+  }
+
   const lines: string[] = [];
 
   lines.push('# Auth Module Context\n');
@@ -25,7 +53,19 @@ export function generateAuthContextMD(config: AuthBPContextConfig): string {
   lines.push('- User registration and login');
   lines.push('- JWT token generation and validation');
   lines.push('- Refresh token management');
-  lines.push('- Password hashing and verification\n');
+  if (hasPasswordLogin(config)) {
+    lines.push('- Password hashing and verification');
+  }
+  if (hasMagicLink(config)) {
+    lines.push('- Passwordless sign-in with emailed magic links');
+  }
+  if (config.apiKeys) {
+    lines.push('- API keys for machine-to-machine access (X-API-Key)');
+  }
+  if (config.loginProtection) {
+    lines.push('- Brute-force protection: failed login limits, progressive delays and temporary lockout');
+  }
+  lines.push('');
 
   lines.push('## Architecture Overview\n');
 
@@ -53,38 +93,112 @@ export function generateAuthContextMD(config: AuthBPContextConfig): string {
 
   lines.push('## Data Transfer Objects (DTOs)\n');
   lines.push('All DTOs use class-validator for strict validation.');
-  lines.push('The ValidationPipe is configured globally.\n');
+  if (config.hardenMain) {
+    lines.push('The ValidationPipe is configured globally in src/common/configure-app.ts');
+    lines.push('(whitelist, forbidNonWhitelisted, transform): unknown properties are rejected.\n');
+  } else {
+    lines.push('Register a global ValidationPipe in src/main.ts, otherwise these rules are not enforced.\n');
+  }
 
-  lines.push('### LoginDto');
-  lines.push('Purpose: User login with email and password\n');
-  lines.push('Properties:');
-  lines.push('- email (string, email): Valid email address [IsEmail, IsDefined]');
-  lines.push('- password (string): User password, min 8 chars [IsString, MinLength(8)]');
-  if (config.multitenant) {
-    lines.push('- tenantId (string, optional): Tenant identifier [IsUUID, IsOptional]');
+  if (hasPasswordLogin(config)) {
+    lines.push('### LoginDto');
+    lines.push('Purpose: User login with email and password\n');
+    lines.push('Properties:');
+    lines.push('- email (string, email): Valid email address [IsEmail, IsDefined]');
+    lines.push('- password (string): User password, min 8 chars [IsString, MinLength(8)]');
+    if (config.multitenant) {
+      lines.push('- tenantId (string, optional): Tenant identifier [IsString, IsNotEmpty, IsOptional]');
+    }
+    lines.push('');
   }
-  lines.push('');
 
   lines.push('### RegisterDto');
   lines.push('Purpose: User registration with profile data\n');
   lines.push('Properties:');
   lines.push('- email (string, email): Unique email address [IsEmail, IsDefined]');
-  lines.push('- password (string): Strong password, min 8 chars [IsStrongPassword, MinLength(8)]');
+  if (config.loginMethod === 'both') {
+    lines.push('- password (string, optional): Strong password, min 8 chars; without it the user signs in with magic links [IsStrongPassword, MinLength(8), IsOptional]');
+  } else if (hasPasswordLogin(config)) {
+    lines.push('- password (string): Strong password, min 8 chars [IsStrongPassword, MinLength(8)]');
+  }
   lines.push('- firstName (string): First name [IsString, MinLength(2), MaxLength(50)]');
   lines.push('- lastName (string): Last name [IsString, MinLength(2), MaxLength(50)]');
   if (config.whitelabel) {
-    lines.push('- brandId (string, optional): Brand identifier [IsUUID, IsOptional]');
+    lines.push('- brandId (string, optional): Brand identifier [IsString, IsNotEmpty, IsOptional]');
     lines.push('- theme (string, optional): Theme preference [IsString, IsOptional]');
   }
   if (config.multitenant) {
-    lines.push('- tenantId (string, optional): Tenant identifier [IsUUID, IsOptional]');
+    lines.push('- tenantId (string, optional): Tenant identifier [IsString, IsNotEmpty, IsOptional]');
   }
   lines.push('');
 
   lines.push('### RefreshTokenDto');
   lines.push('Purpose: Request new JWT token using refresh token\n');
   lines.push('Properties:');
-  lines.push('- refreshToken (string): Valid refresh token [IsString, IsDefined]\n');
+  lines.push(
+    hasCookieTransport(config)
+      ? '- refreshToken (string, optional): Valid refresh token, defaults to the refresh_token cookie [IsString, IsOptional]\n'
+      : '- refreshToken (string): Valid refresh token [IsString, IsDefined]\n'
+  );
+
+  if (hasPasswordLogin(config)) {
+    lines.push('### ForgotPasswordDto / ResetPasswordDto');
+    lines.push('Purpose: Request a reset link, then set a new password with its token\n');
+    lines.push('Properties:');
+    lines.push('- email (string, email): Account email [IsEmail, IsDefined]');
+    lines.push('- token (string): Token from the reset link [IsString, IsDefined]');
+    lines.push('- password (string): New strong password [IsStrongPassword, MinLength(8)]\n');
+  }
+
+  if (hasMagicLink(config)) {
+    lines.push('### MagicLinkRequestDto / MagicLinkVerifyDto');
+    lines.push('Purpose: Request a sign-in link, then exchange its token for the token pair\n');
+    lines.push('Properties:');
+    lines.push('- email (string, email): Account email [IsEmail, IsDefined]');
+    if (config.multitenant) {
+      lines.push('- tenantId (string, optional, request only): Tenant identifier [IsString, IsNotEmpty, IsOptional]');
+    }
+    lines.push('- token (string, verify only): Token from the sign-in link [IsString, IsDefined]\n');
+  }
+
+  if (config.emailVerification) {
+    lines.push('### VerifyEmailDto');
+    lines.push('Purpose: Redeem the token from the verification email\n');
+    lines.push('Properties:');
+    lines.push('- token (string): Token from the verification link [IsString, IsDefined]\n');
+  }
+
+  if (config.mfa) {
+    lines.push('### MfaCodeDto / MfaVerifyDto');
+    lines.push('Purpose: MFA confirm/disable, and the second login step\n');
+    lines.push('Properties:');
+    lines.push('- code (string): 6-digit TOTP code or a recovery code [IsString, MinLength(6), MaxLength(11)]');
+    lines.push('- challengeToken (string, MfaVerifyDto only): challengeToken from /auth/login [IsString, IsDefined]\n');
+  }
+
+  if (config.sso) {
+    lines.push('### SsoDiscoverDto');
+    lines.push('Purpose: Find the single sign-on provider for an email domain or a tenant\n');
+    lines.push('Properties:');
+    lines.push('- email (string, optional): Its domain selects the provider [IsEmail, IsOptional]');
+    lines.push('- tenant (string, optional): Tenant slug, used when no provider claims the domain [IsString, MaxLength(100), IsOptional]\n');
+  }
+
+  if (config.apiKeys) {
+    lines.push('### CreateApiKeyDto / UpdateApiKeyDto');
+    lines.push('Purpose: Create an API key, or rename it and replace its scopes\n');
+    lines.push('Properties:');
+    lines.push('- name (string, optional in UpdateApiKeyDto): Label [IsString, MinLength(1), MaxLength(100)]');
+    lines.push('- scopes (string[], optional): Scopes checked by @AllowApiKey() / @RequireApiKey() [IsArray, IsString each, MaxLength(100) each]');
+    lines.push('- expiresAt (ISO 8601 string, optional, CreateApiKeyDto only): No expiry when omitted [IsDateString]\n');
+  }
+
+  if (config.loginProtection) {
+    lines.push('### UnlockAccountDto');
+    lines.push('Purpose: Lift a login lockout with the token from the unlock email\n');
+    lines.push('Properties:');
+    lines.push('- token (string, required): Token from the emailed unlock link [IsString, IsDefined]\n');
+  }
 
   lines.push('## Validation Rules\n');
   lines.push('### Email Validation');
@@ -92,14 +206,16 @@ export function generateAuthContextMD(config: AuthBPContextConfig): string {
   lines.push('- Must be unique in users table');
   lines.push('- Checked by @IsEmail() decorator + database unique constraint\n');
 
-  lines.push('### Password Validation');
-  lines.push('- Minimum 8 characters');
-  lines.push('- Must contain uppercase letters (A-Z)');
-  lines.push('- Must contain lowercase letters (a-z)');
-  lines.push('- Must contain numbers (0-9)');
-  lines.push('- Must contain special characters (!@#$%^&*)');
-  lines.push('- Enforced by @IsStrongPassword() decorator');
-  lines.push('- Always hash before storing (bcryptjs)\n');
+  if (hasPasswordLogin(config)) {
+    lines.push('### Password Validation');
+    lines.push('- Minimum 8 characters');
+    lines.push('- Must contain uppercase letters (A-Z)');
+    lines.push('- Must contain lowercase letters (a-z)');
+    lines.push('- Must contain numbers (0-9)');
+    lines.push('- Must contain special characters (!@#$%^&*)');
+    lines.push('- Enforced by @IsStrongPassword() decorator');
+    lines.push('- Always hash before storing (bcryptjs)\n');
+  }
 
   lines.push('## Integration Points\n');
   lines.push('### Dependencies');
@@ -108,35 +224,406 @@ export function generateAuthContextMD(config: AuthBPContextConfig): string {
   lines.push('- passport-jwt - JWT passport strategy');
   lines.push('- class-validator - DTO validation');
   lines.push('- class-transformer - DTO transformation');
-  lines.push('- bcryptjs - Password hashing\n');
+  if (hasPasswordLogin(config)) {
+    lines.push('- bcryptjs - Password hashing');
+  }
+  lines.push('- @nestjs/schedule - Cleanup jobs for sessions and emailed tokens');
+  if (hasCookieTransport(config)) {
+    lines.push('- cookie-parser - Reads the token and CSRF cookies');
+  }
+  lines.push('- ioredis - Redis token denylist (TOKEN_DENYLIST_STORE=redis)' + (hasLoginAttemptStore(config) ? ' and login attempt store (LOGIN_ATTEMPT_STORE=redis)' : ''));
+  lines.push('- nodemailer - SMTP mail transport\n');
+
+  lines.push('### Endpoints');
+  if (hasPasswordLogin(config)) {
+    lines.push('- POST /auth/register (public) - RegisterDto, returns an access/refresh token pair' + (config.multitenant ? '; 400 for an unknown tenantId, 403 for a tenant without openSignup' : ''));
+    lines.push('- POST /auth/login (public) - LoginDto, returns an access/refresh token pair' + (config.loginProtection ? '; 429 with { retryAfter } while the account or IP address is locked' : ''));
+  } else {
+    lines.push('- POST /auth/register (public) - RegisterDto, creates the account if needed and emails a sign-in link; always 202');
+  }
+  if (hasMagicLink(config)) {
+    lines.push('- POST /auth/magic-link (public) - MagicLinkRequestDto, emails a sign-in link; always 202');
+    lines.push('- POST /auth/magic-link/verify (public) - MagicLinkVerifyDto, returns an access/refresh token pair');
+  }
+  lines.push('- POST /auth/refresh (public) - RefreshTokenDto, rotates the refresh token');
+  lines.push('- POST /auth/logout (public) - RefreshTokenDto, revokes the token family');
+  lines.push('- POST /auth/revoke (public) - RevokeTokenDto, denies one access token until it expires; 204, also for invalid tokens');
+  if (hasPasswordLogin(config)) {
+    lines.push('- POST /auth/forgot-password (public) - ForgotPasswordDto, emails a reset link; always 202');
+    lines.push('- POST /auth/reset-password (public) - ResetPasswordDto, sets the password and revokes all sessions');
+  }
+  if (config.emailVerification) {
+    lines.push('- POST /auth/verify-email (public) - VerifyEmailDto, sets User.emailVerifiedAt');
+    lines.push('- POST /auth/resend-verification - Emails a new link to the current user; 429 when asked again too soon');
+  }
+  if (config.mfa) {
+    lines.push('- POST /auth/mfa/enroll - Returns { secret, otpauthUrl } for a new, inactive TOTP secret');
+    lines.push('- POST /auth/mfa/confirm - MfaCodeDto, activates MFA and returns 10 recovery codes once');
+    lines.push('- POST /auth/mfa/disable - MfaCodeDto (TOTP or recovery code), turns MFA off');
+    lines.push('- POST /auth/mfa/verify (public) - MfaVerifyDto, second login step, returns the token pair');
+  }
+  for (const provider of config.socialProviders ?? []) {
+    lines.push(`- GET /auth/${provider} (public) - Redirects to ${provider} to sign in`);
+    lines.push(`- GET /auth/${provider}/callback (public) - Redirects to SOCIAL_LOGIN_REDIRECT_URL#accessToken=...&refreshToken=...`);
+  }
+  if (config.sso) {
+    lines.push('- POST /auth/sso/discover (public) - SsoDiscoverDto, returns { providerId, name, protocol, loginUrl }');
+    lines.push('- GET /auth/sso/:providerId/login (public) - Redirects to the tenant identity provider');
+    lines.push('- GET /auth/sso/:providerId/callback (public) - OIDC callback, redirects to SSO_LOGIN_REDIRECT_URL#accessToken=...');
+    lines.push('- POST /auth/sso/:providerId/acs (public) - SAML assertion consumer service, redirects like the OIDC callback');
+    lines.push('- GET /auth/sso/:providerId/metadata (public) - SAML service provider metadata XML');
+  }
+  if (config.apiKeys) {
+    lines.push('- POST /auth/api-keys - CreateApiKeyDto, returns the key summary and { key } (shown only once)');
+    lines.push('- GET /auth/api-keys, GET /auth/api-keys/:id - The current user\'s keys (never the key or its hash)');
+    lines.push('- PATCH /auth/api-keys/:id - UpdateApiKeyDto');
+    lines.push('- DELETE /auth/api-keys/:id - Deletes the key; 204');
+  }
+  if (config.loginProtection) {
+    lines.push('- POST /auth/unlock (public) - UnlockAccountDto, lifts the account lockout; 204');
+    if (config.rbac) {
+      lines.push('- GET /auth/lockouts (admin role) - The 100 most recent lockouts' + (config.multitenant ? ' of the admin\'s tenant, and all IP blocks' : ''));
+    }
+  }
+  if (hasAsymmetricJwt(config)) {
+    lines.push('- GET /.well-known/jwks.json (public) - Public keys (JWKS) for verifying access tokens');
+  }
+  lines.push('- GET /auth/sessions - The current user\'s devices: { id (familyId), device, ipAddress, userAgent, lastSeenAt, current }');
+  lines.push('- DELETE /auth/sessions/:id - Revokes one of the user\'s session families; 204, 404 when not theirs');
+  lines.push('- POST /auth/sessions/revoke-others - Revokes every session family of the user except the current one; 204');
+  if (config.rbac) {
+    lines.push('- DELETE /auth/sessions/users/:userId (admin role) - Revokes every session of a user' + (config.multitenant ? ' of the admin\'s tenant' : '') + '; 204, 404 for unknown users');
+  }
+  lines.push('- GET /auth/me - The authenticated user from the JWT\n');
+
+  lines.push('### Sessions (session.service.ts)');
+  lines.push('- Every login creates a row in the Session model and starts a token family (familyId)');
+  lines.push('- Refresh tokens are opaque random strings; only their SHA-256 hash (refreshTokenHash) is stored');
+  lines.push('- /auth/refresh marks the session rotatedAt and creates a new session in the same family');
+  lines.push('- Reusing a rotated refresh token revokes every session in its family (revokedAt)');
+  lines.push('- Sessions record userAgent, ipAddress and lastSeenAt; describeDevice() turns the user agent into a label ("Chrome on macOS")');
+  lines.push('- Access tokens carry the familyId as sid; revoking sessions adds their sid to the TokenDenylist, so their access tokens are rejected at once');
+  lines.push('- JwtStrategy also rejects tokens whose family is no longer active (SessionService.isActive), cached per instance for SESSION_CHECK_TTL seconds (default 30)');
+  lines.push('- AuthenticatedUser.sessionId is the sid; SessionController (session.controller.ts) uses it to flag and keep the current session');
+  lines.push('- An hourly @Cron job (@nestjs/schedule) deletes expired and revoked sessions\n');
+
+  lines.push('### Token Denylist (auth/token-denylist)');
+  lines.push('- Access tokens carry a jti (random UUID); JwtTokenService.isRevoked checks the jti and sid against the TokenDenylist');
+  lines.push('- JwtStrategy (and so JwtAuthGuard) and JwtTokenService.verifyAccessToken reject denied tokens and tokens without jti or sid');
+  lines.push('- Logout, password reset, session revocation' + (config.rbac ? ', admin revocation' : '') + ' and refresh token reuse deny the sid; POST /auth/revoke denies a jti');
+  lines.push('- Entries are kept until the tokens they cover expire (JWT_EXPIRATION for a sid, the token exp for a jti)');
+  lines.push('- TokenDenylist (abstract class); TOKEN_DENYLIST_STORE selects DatabaseTokenDenylist (DeniedToken model, default), MemoryTokenDenylist (per process) or RedisTokenDenylist (REDIS_URL)');
+  lines.push('- RedisTokenDenylist accepts an ioredis client, e.g. ioredis-mock in tests\n');
+
+  if (config.loginProtection) {
+    lines.push('### Login Protection (auth/login-protection)');
+    lines.push('- AuthService.login calls LoginProtectionService: assertNotLocked before checking the password, recordFailure on a wrong password' + (config.multitenant ? ' or tenant' : '') + ', recordSuccess after');
+    lines.push('- Failures are counted per email and per IP address for LOGIN_ATTEMPT_WINDOW seconds; unknown emails are counted too, so lockouts do not reveal accounts');
+    lines.push('- Each failure is answered after a delay of 250ms doubling per failure, capped at LOGIN_MAX_DELAY_MS');
+    lines.push('- LOGIN_MAX_ATTEMPTS failures lock the email, LOGIN_MAX_ATTEMPTS_PER_IP failures block the IP address, for LOGIN_LOCKOUT_DURATION seconds');
+    lines.push('- A successful login clears the email counter, never the IP counter' + (config.mfa ? '; for users with MFA only once /auth/mfa/verify succeeds' : ''));
+    lines.push('- Each lockout is a LoginLockout row (reason account or ip); the owner of a locked account is emailed LOGIN_UNLOCK_URL?token=... (stored as unlockTokenHash)');
+    lines.push('- LoginAttemptStore (abstract class) holds counters and locks; LOGIN_ATTEMPT_STORE selects MemoryLoginAttemptStore (per process) or RedisLoginAttemptStore (REDIS_URL, shared)');
+    lines.push('- RedisLoginAttemptStore accepts an ioredis client, e.g. ioredis-mock in tests');
+    lines.push('- Only password login (LoginDto) is protected\n');
+  }
+
+  if (hasCookieTransport(config)) {
+    lines.push('### Cookie Transport (auth-cookies.ts, csrf.middleware.ts)');
+    lines.push('- Endpoints that issue tokens (register, login, refresh' + (config.mfa ? ', mfa/verify' : '') + (hasMagicLink(config) ? ', magic-link/verify' : '') + ') call setAuthCookies and answer { expiresIn, csrfToken } instead of the token pair' + (config.mfa ? '; an MFA challenge is returned unchanged (setLoginCookies)' : ''));
+    lines.push('- Cookies: access_token and refresh_token (httpOnly), csrf_token (readable by the frontend); Secure and SameSite from COOKIE_SECURE and COOKIE_SAME_SITE, domain and path from COOKIE_DOMAIN and COOKIE_PATH');
+    lines.push('- refresh_token is only sent to REFRESH_COOKIE_PATH (default /auth); /auth/refresh and /auth/logout use it when the body has no refreshToken');
+    lines.push('- /auth/logout clears the cookies');
+    lines.push('- JwtStrategy reads the Authorization header first, then the access_token cookie');
+    lines.push('- CsrfMiddleware (applied to every route in AuthModule, after cookie-parser) rejects POST/PUT/PATCH/DELETE requests that carry an auth cookie but no X-CSRF-Token header equal to the csrf_token cookie (403); requests with an Authorization header are not checked');
+    if ((config.socialProviders ?? []).length > 0 || config.sso) {
+      lines.push('- Social and SSO callbacks set the cookies and put only { expiresIn, csrfToken } in the redirect fragment');
+    }
+    lines.push('');
+  }
+
+  if (hasAsymmetricJwt(config)) {
+    lines.push('### Signing Keys (jwt-keys.ts, jwks.controller.ts)');
+    lines.push(`- Access tokens are signed with ${config.jwtAlgorithm}; the header kid names the signing key`);
+    lines.push('- JwtKeyStore loads the key set at startup from JWT_KEYS (JSON) or JWT_KEYS_FILE (default keys/jwt-keys.json)');
+    lines.push('- Key status: active (signs; exactly one), next (published, not signing yet), retiring (verifies only)');
+    lines.push('- Tokens are verified with the key matching their kid, and only with that key\'s algorithm');
+    lines.push('- Rotate with `npx auth-bp-nest keys generate`, `keys promote`, then `keys retire` after JWT_EXPIRATION; restart after each step');
+    lines.push('- /.well-known/jwks.json serves all public keys (Cache-Control: max-age=300)\n');
+  }
+
+  if (hasPasswordLogin(config)) {
+    lines.push('### Password Reset (password-reset.service.ts)');
+    lines.push('- Reset tokens live in the PasswordResetToken model, stored as a SHA-256 hash (tokenHash)');
+    lines.push('- Tokens are single use (usedAt) and expire after PASSWORD_RESET_EXPIRATION seconds');
+    lines.push('- Requesting a new link deletes the unused tokens of that user');
+    lines.push('- The link is PASSWORD_RESET_URL?token=... and is sent through MailerService');
+    lines.push('- Unknown emails get the same 202 response, so accounts cannot be enumerated\n');
+  }
+
+  if (hasMagicLink(config)) {
+    lines.push('### Magic Link (magic-link.service.ts)');
+    lines.push('- Sign-in tokens live in the MagicLinkToken model, stored as a SHA-256 hash (tokenHash)');
+    lines.push('- Tokens are single use (usedAt) and expire after MAGIC_LINK_EXPIRATION seconds (default 900)');
+    lines.push('- The link is MAGIC_LINK_URL?token=...; that page POSTs the token to /auth/magic-link/verify, so mail scanners prefetching the link do not use it up');
+    lines.push('- Redeeming runs the normal login (session, refresh token family' + (config.mfa ? ', MFA challenge' : '') + ')');
+    if (config.emailVerification) {
+      lines.push('- Redeeming a link proves ownership of the address and sets emailVerifiedAt' + (hasPasswordLogin(config) ? '; for a never verified user it also clears passwordHash and deletes their sessions' : ''));
+    }
+    lines.push('- Unknown emails get the same 202 response, so accounts cannot be enumerated\n');
+  }
+
+  if (config.emailVerification) {
+    lines.push('### Email Verification (email-verification.service.ts)');
+    lines.push('- Registration emails EMAIL_VERIFICATION_URL?token=...; the token is stored hashed in EmailVerificationToken');
+    lines.push('- Unverified users can still log in; protect routes with @RequireVerifiedEmail()');
+    lines.push('- EmailVerifiedGuard (APP_GUARD) enforces it from User.emailVerifiedAt in the database, not from the JWT');
+    lines.push('- Resending is limited to once per EMAIL_VERIFICATION_RESEND_INTERVAL seconds\n');
+  }
+
+  if (config.mfa) {
+    lines.push('### Multi-Factor Authentication (auth/mfa)');
+    lines.push('- For users with mfaEnabledAt, /auth/login returns { status: "mfa_required", challengeToken, expiresIn } instead of tokens');
+    lines.push('- Challenge tokens are JWTs signed with MFA_CHALLENGE_SECRET (not JWT_SECRET), so they never work as access tokens');
+    lines.push('- Each challenge (its jti) is used up by the first /auth/mfa/verify call, right or wrong: after a wrong code the user signs in again');
+    lines.push('- MFA_MAX_ATTEMPTS wrong codes (verify or disable) lock the user\'s second step for MFA_LOCKOUT_DURATION seconds: 429 with { retryAfter }');
+    lines.push('- Used challenges and wrong codes are counted in the LoginAttemptStore (LOGIN_ATTEMPT_STORE: memory per process, redis shared)');
+    lines.push('- totp.ts implements RFC 6238 (SHA-1, 6 digits, 30s, ±1 step drift) without dependencies');
+    lines.push('- mfaSecret is AES-256-GCM encrypted with MFA_ENCRYPTION_KEY; recovery codes are stored as SHA-256 hashes and work once');
+    lines.push('- mfaLastUsedStep prevents replaying a TOTP code');
+    lines.push('- Time comes from the Clock provider (auth/clock.ts); in tests use overrideProvider(Clock).useValue({ now: () => fixedDate })');
+    lines.push('  and generateTotp(secret, getTotpStep(fixedDate)) from totp.ts to produce valid codes offline\n');
+  }
+
+  if (config.socialProviders?.length) {
+    lines.push('### Social Login (auth/social, auth/strategies)');
+    lines.push(`- Providers: ${config.socialProviders.join(', ')} (passport strategies in auth/strategies)`);
+    lines.push('- Each provider identity is an Account row (provider, providerAccountId) linked to a User');
+    lines.push('- An unknown identity is linked to the user with the same email only if the provider verified that email');
+    if (config.emailVerification && hasPasswordLogin(config)) {
+      lines.push('- Linking to a user whose email was never verified marks it verified, clears passwordHash and deletes their sessions');
+    }
+    if (hasPasswordLogin(config)) {
+      lines.push('- Users created by social login have no passwordHash; password login rejects them');
+    }
+    lines.push('- The callback runs the normal login (session, refresh token family' + (config.mfa ? ', MFA challenge' : '') + ') and puts the result in the redirect URL fragment');
+    lines.push('- OAuth state (and the OIDC PKCE verifier) live in a signed 10 minute cookie (cookie-session, SOCIAL_SESSION_SECRET, required at startup) on the social routes only');
+    if (config.socialProviders.includes('oidc')) {
+      lines.push('- The OIDC issuer is discovered from OIDC_ISSUER_URL at startup; `npx oauth2-mock-server` gives an offline issuer for tests');
+    }
+    lines.push('');
+  }
+
+  if (config.sso) {
+    lines.push('### Enterprise SSO (auth/sso)');
+    lines.push('- Each tenant registers OIDC or SAML providers as IdentityProvider rows (issuer, client credentials or certificates, domains)');
+    lines.push('- Discovery: the provider listing the email domain in `domains`, else the first enabled provider of the tenant slug');
+    lines.push('- Users are created just in time in the provider\'s tenant and linked through SsoIdentity (identityProviderId, subject)');
+    lines.push('- A provider only signs in users of its own tenant, and only emails in its `domains` when any are listed');
+    lines.push('- attributeMapping renames the email, firstName, lastName and groups claims/attributes');
+    if (config.rbac) {
+      lines.push('- groupRoleMapping ({ group: [role names] }) grants roles on every SSO login and removes mapped roles the user lost; other roles are kept');
+    }
+    lines.push('- OIDC: authorization code flow with PKCE (openid-client); state lives in a signed 10 minute cookie (SSO_SESSION_SECRET, required at startup)');
+    lines.push('- SAML: SP-initiated only; signed assertions and InResponseTo are required (@node-saml/node-saml); the SP entity ID is the metadata URL');
+    lines.push('- Callback, ACS and metadata URLs are built from SSO_BASE_URL\n');
+  }
+
+  if (config.apiKeys) {
+    lines.push('### API Keys (auth/api-keys)');
+    lines.push('- Keys look like sk_<random> (API_KEY_PREFIX); the ApiKey model stores only the SHA-256 hash (keyHash) and the first characters (keyPrefix)');
+    lines.push('- Each key belongs to the user who created it' + (config.multitenant ? ' and to their tenant; a key is rejected when X-Tenant-ID names another tenant' : ''));
+    lines.push('- Expired keys are rejected; lastUsedAt is updated at most once a minute');
+    lines.push('- ApiKeyStrategy (strategies/api-key.strategy.ts, passport-custom) reads the X-API-Key header');
+    lines.push('- JwtAuthGuard accepts API keys only on routes marked @AllowApiKey(...scopes) (JWT or key, via JwtOrApiKeyGuard) or @RequireApiKey(...scopes) (key only, via ApiKeyGuard)');
+    lines.push('- A key must have every scope listed on the route, else 403; JWT users are not limited by scopes');
+    lines.push('- request.user for a key is the owner with apiKey: { id, scopes }' + (config.rbac ? ' and no roles, so @Roles() routes reject keys' : ''));
+    lines.push('- /auth/api-keys only accepts JWTs, so a key cannot create or widen other keys\n');
+  }
+
+  lines.push('### Mail (src/mail)');
+  lines.push('- Inject MailerService (abstract class) and call send({ to, subject, text, html? })');
+  lines.push('- MAIL_TRANSPORT=console logs messages; MAIL_OUTBOX_DIR additionally writes .eml files');
+  lines.push('- MAIL_TRANSPORT=smtp sends through nodemailer (SMTP_HOST, SMTP_PORT...); use Mailpit or MailHog on localhost:1025 in development');
+  lines.push('- MailModule is global and registered in app.module.ts\n');
 
   lines.push('### Exports');
-  lines.push('- AuthService - Core authentication logic');
+  lines.push('- AuthService - Core authentication logic (register, ' + (hasPasswordLogin(config) ? 'login, ' : '') + 'refresh, logout)');
+  lines.push('- JwtTokenService - Signs, verifies and revokes access tokens and creates/hashes refresh tokens (jwt.service.ts)');
+  if (hasAsymmetricJwt(config)) {
+    lines.push('- JwtKeyStore - Signing key and public keys by kid (jwt-keys.ts)');
+  }
+  lines.push('- SessionService - Refresh token families, rotation, reuse detection, device list, revocation and cleanup');
+  if (hasPasswordLogin(config)) {
+    lines.push('- PasswordResetService - Password reset emails and token redemption');
+  }
+  if (hasMagicLink(config)) {
+    lines.push('- MagicLinkService - Sign-in link emails and token redemption');
+  }
   lines.push('- JwtStrategy - JWT passport strategy');
-  lines.push('- AuthGuard - JWT authentication guard');
+  lines.push('- JwtAuthGuard - JWT authentication guard (auth.guard.ts)');
+  lines.push('- Public decorator - Opt a route out of JWT authentication');
+  lines.push('- CurrentUser decorator - Inject the AuthenticatedUser set by JwtStrategy');
+  if (config.mfa) {
+    lines.push('- MfaService - TOTP enrollment, recovery codes and login challenges (mfa/mfa.service.ts)');
+  }
+  if (config.sso) {
+    lines.push('- SsoService - Provider discovery, just-in-time users' + (config.rbac ? ' and group to role mapping' : '') + ' (sso/sso.service.ts)');
+  }
+  if (config.socialProviders?.length) {
+    lines.push('- SocialAuthService - Finds, links or creates the user for a social identity (social/social-auth.service.ts)');
+  }
+  if (config.apiKeys) {
+    lines.push('- ApiKeyService - Creates, lists, updates and deletes keys and resolves X-API-Key values (api-keys/api-key.service.ts)');
+    lines.push('- ApiKeyGuard / JwtOrApiKeyGuard - Key only / JWT or key guards (api-key.guard.ts)');
+    lines.push('- AllowApiKey / RequireApiKey decorators - Accept API keys with the given scopes on a route (api-key.decorator.ts)');
+  }
+  if (config.loginProtection) {
+    lines.push('- LoginProtectionService - Failed login counters, lockouts and unlock links (login-protection/login-protection.service.ts)');
+    lines.push('- LoginAttemptStore - Counter and lock storage; memory or Redis (login-protection/login-attempt.store.ts)');
+  }
+  if (config.emailVerification) {
+    lines.push('- RequireVerifiedEmail decorator - Only users with a verified email can call the route');
+  }
   if (config.rbac) {
     lines.push('- RbacGuard - Role-based access guard');
     lines.push('- Roles decorator - Mark routes with required roles');
   }
   lines.push('');
 
+  lines.push('### Global Registration');
+  lines.push('DatabaseModule (global PrismaService), MailModule (global MailerService) and AuthModule are imported in app.module.ts and JwtAuthGuard is provided as APP_GUARD:');
+  lines.push('- Every route requires a valid JWT by default');
+  lines.push('- Mark public routes (login, register, health checks) with @Public()');
+  if (config.multitenant) {
+    lines.push('- TenantGuard is registered as APP_GUARD after JwtAuthGuard: request.tenantId is the tenant of the verified token, and an X-Tenant-ID header naming another tenant is rejected with 403');
+  }
+  if (config.rbac) {
+    lines.push('- RbacGuard is registered as APP_GUARD after JwtAuthGuard, so request.user is set when roles are checked');
+  }
+  if (config.emailVerification) {
+    lines.push('- EmailVerifiedGuard is registered as APP_GUARD after JwtAuthGuard; it only acts on @RequireVerifiedEmail() routes');
+  }
+  lines.push('');
+
   lines.push('## Security Considerations\n');
-  lines.push('- Never return password hash in responses');
-  lines.push('- Always validate strong passwords on registration');
-  lines.push('- Use bcryptjs with salt rounds >= 10');
-  lines.push('- Implement password reset flow separately');
-  lines.push('- Store refresh tokens in database for revocation');
-  lines.push('- Validate token expiration on every request\n');
+  if (hasPasswordLogin(config)) {
+    lines.push('- Never return password hash in responses');
+    lines.push('- Always validate strong passwords on registration');
+    lines.push('- Use bcryptjs with salt rounds >= 10');
+    lines.push('- Password reset tokens are hashed, single use and short-lived; a reset signs the user out everywhere');
+  }
+  if (config.loginProtection) {
+    lines.push('- Locked logins get 429 even with the right password; use the Redis store when running several instances');
+  }
+  if (hasMagicLink(config)) {
+    lines.push('- Magic link tokens are hashed, single use and short-lived');
+  }
+  if (hasAsymmetricJwt(config)) {
+    lines.push('- Private signing keys never leave the key set; keep keys/ out of git and inject JWT_KEYS from a secret manager in production');
+  }
+  lines.push('- Refresh tokens are stored hashed and rotated on every use');
+  lines.push('- Validate token expiration on every request');
+  if (config.hardenMain) {
+    lines.push('- 401/403 responses are shaped by AuthExceptionFilter (src/common/filters); a bare UnauthorizedException (passport, JWT) becomes "Authentication required", a 401 thrown with its own message keeps it');
+    lines.push('- helmet sets security headers; CORS origins come from CORS_ORIGINS');
+  }
+  lines.push('');
 
   lines.push('## Configuration Applied');
   lines.push(`- Whitelabel: ${config.whitelabel}`);
   lines.push(`- RBAC: ${config.rbac}`);
   lines.push(`- Multitenant: ${config.multitenant}`);
+  lines.push(`- Login method: ${config.loginMethod ?? 'password'}`);
+  lines.push(`- JWT signing: ${config.jwtAlgorithm ?? 'HS256'}`);
+  lines.push(`- Token transport: ${config.tokenTransport ?? 'bearer'}`);
+  lines.push(`- Email verification: ${Boolean(config.emailVerification)}`);
+  lines.push(`- MFA: ${Boolean(config.mfa)}`);
+  lines.push(`- Social login: ${config.socialProviders?.length ? config.socialProviders.join(', ') : 'none'}`);
+  lines.push(`- Enterprise SSO: ${Boolean(config.sso)}`);
+  lines.push(`- API keys: ${Boolean(config.apiKeys)}`);
+  lines.push(`- Login protection: ${Boolean(config.loginProtection)}`);
   lines.push(`- Database: ${config.database === 'supabase' ? 'Supabase PostgreSQL' : 'Google Cloud SQL'}`);
 
   return lines.join('\n');
 }
 
+/**
+ * Auth module context when Supabase Auth signs users in
+ */
+function generateSupabaseAuthContextMD(config: AuthBPContextConfig): string {
+  const lines: string[] = [];
+
+  lines.push('# Auth Module Context\n');
+  lines.push('## Module Purpose');
+  lines.push('Supabase Auth signs users in (passwords, magic links, OAuth, MFA) and issues the tokens.');
+  lines.push('This module only verifies them:');
+  lines.push('- Supabase access token validation (JwtStrategy)');
+  if (config.rbac || config.multitenant) {
+    lines.push('- Mapping of the app_metadata ' + [config.rbac ? 'roles' : '', config.multitenant ? 'tenant' : ''].filter(Boolean).join(' and ') + ' claims onto request.user');
+  }
+  lines.push('- A local User row per Supabase user (SupabaseUserService)');
+  lines.push('There are no login, register, refresh or logout endpoints and no auth DTOs: clients call Supabase Auth (supabase-js) and send its access token.\n');
+
+  lines.push('## Architecture Overview\n');
+  lines.push('### Token Verification (strategies/jwt.strategy.ts)');
+  lines.push('- Authorization: Bearer <Supabase access token>');
+  lines.push('- HS256 tokens are verified with SUPABASE_JWT_SECRET (legacy JWT secret); RS256/ES256 tokens with the project JWKS (SUPABASE_URL/auth/v1/.well-known/jwks.json or SUPABASE_JWKS_URL), cached by kid');
+  lines.push('- The issuer must be SUPABASE_URL/auth/v1 and the audience SUPABASE_JWT_AUDIENCE (default authenticated), so the anon and service role keys are rejected');
+  lines.push('- Supabase access tokens cannot be revoked before they expire; keep the JWT expiry short in the Supabase dashboard');
+  lines.push('- validate() returns AuthenticatedUser { userId (sub), email (null for phone and anonymous users), sessionId (session_id), isAnonymous' + (config.rbac ? ', roles' : '') + (config.multitenant ? ', tenantId' : '') + ' }\n');
+
+  if (config.rbac || config.multitenant) {
+    lines.push('### Claims Mapping');
+    if (config.rbac) {
+      lines.push('- roles: app_metadata[SUPABASE_ROLES_CLAIM] (default roles), a list or a single string; RbacGuard and @Roles() read request.user.roles');
+    }
+    if (config.multitenant) {
+      lines.push('- tenantId: app_metadata[SUPABASE_TENANT_CLAIM] (default tenant_id), a Tenant id; @TenantId() returns request.user.tenantId and rejects an X-Tenant-ID header naming another tenant with 403');
+    }
+    lines.push('- Set these with the service role key, e.g. supabase.auth.admin.updateUserById(id, { app_metadata: { ... } }); they reach the API with the next token the user gets');
+    lines.push('- Never read them from user_metadata: users can change it themselves\n');
+  }
+
+  lines.push('### Local Users (supabase-user.service.ts)');
+  lines.push('- User.id is the Supabase user id (auth.users.id); reference it from application tables');
+  lines.push('- JwtStrategy calls SupabaseUserService.sync(): the row is created the first time a token of the user is seen (upsert)');
+  lines.push('- email' + (config.multitenant ? ' and tenantId are' : ' is') + ' updated when the token differs from what was synced, otherwise at most every SUPABASE_USER_SYNC_TTL seconds (default 300) per instance');
+  if (config.multitenant) {
+    lines.push('- A tenant claim naming no Tenant row is rejected with 403: create the Tenant before assigning users to it');
+  }
+  lines.push('- Users deleted in Supabase keep their local row; delete it yourself if needed\n');
+
+  lines.push('### Endpoints');
+  lines.push('- GET /auth/me - The authenticated user from the token\n');
+
+  lines.push('### Global Registration');
+  lines.push('DatabaseModule (global PrismaService) and AuthModule are imported in app.module.ts and JwtAuthGuard is provided as APP_GUARD:');
+  lines.push('- Every route requires a valid Supabase access token by default');
+  lines.push('- Mark public routes (health checks, webhooks) with @Public()');
+  if (config.multitenant) {
+    lines.push('- TenantGuard is registered as APP_GUARD after JwtAuthGuard: request.tenantId is the tenant of the verified token, and an X-Tenant-ID header naming another tenant is rejected with 403');
+  }
+  if (config.rbac) {
+    lines.push('- RbacGuard is registered as APP_GUARD after JwtAuthGuard, so request.user is set when roles are checked');
+  }
+  lines.push('');
+
+  lines.push('### Dependencies');
+  lines.push('- @nestjs/passport - Strategy-based authentication');
+  lines.push('- passport-jwt - JWT passport strategy');
+  lines.push('- jwks-rsa - Fetches and caches the public keys of the Supabase JWT signing keys\n');
+
+  lines.push('## Configuration Applied');
+  lines.push('- Supabase Auth: true');
+  lines.push(`- Whitelabel: ${config.whitelabel}`);
+  lines.push(`- RBAC: ${config.rbac}`);
+  lines.push(`- Multitenant: ${config.multitenant}`);
+  lines.push('- Database: Supabase PostgreSQL');
+
+  return lines.join('\n');
+}
+
 /**
  * Generate .context.md for RBAC Module
  */
@@ -167,28 +654,36 @@ export function generateRBACContextMD(config: AuthBPContextConfig): string {
   lines.push('- description (string, optional): Role description [IsString, IsOptional]');
   lines.push('- permissions (array, optional): Permission IDs to assign [IsOptional]');
   if (config.multitenant) {
-    lines.push('- tenantId (string, optional): Tenant ID if multitenant [IsUUID, IsOptional]');
+    lines.push('- tenantId (string, optional): Tenant ID if multitenant [IsString, IsNotEmpty, IsOptional]');
   }
   lines.push('');
 
   lines.push('### AssignRoleDto');
-  lines.push('- userId (string): User ID [IsUUID, IsDefined]');
-  lines.push('- roleId (string): Role ID [IsUUID, IsDefined]\n');
+  lines.push('- userId (string): User ID [IsString, IsNotEmpty, IsDefined]');
+  lines.push('- roleId (string): Role ID [IsString, IsNotEmpty, IsDefined]\n');
 
   lines.push('## Decorators\n');
   lines.push('### @Roles(...roles: string[])');
   lines.push('Use on controller methods to restrict access by role.\n');
 
-  lines.push('## JWT Payload Integration\n');
-  lines.push('When RBAC is enabled, JWT tokens include roles:');
-  lines.push('- sub: user-id');
-  lines.push('- email: user@example.com');
-  lines.push('- roles: [user, moderator]');
-  if (config.multitenant) {
-    lines.push('- tenantId: tenant-id');
+  if (hasSupabaseAuth(config)) {
+    lines.push('## Roles from Supabase Auth\n');
+    lines.push('RbacGuard checks the roles in the Supabase access token, not the UserRole table:');
+    lines.push('- They come from app_metadata[SUPABASE_ROLES_CLAIM] (default roles), as a list or a single string');
+    lines.push("- Set them with the service role key: supabase.auth.admin.updateUserById(id, { app_metadata: { roles: ['admin'] } })");
+    lines.push('- Changes apply from the next token the user gets\n');
+  } else {
+    lines.push('## JWT Payload Integration\n');
+    lines.push('When RBAC is enabled, JWT tokens include roles:');
+    lines.push('- sub: user-id');
+    lines.push('- email: user@example.com');
+    lines.push('- roles: [user, moderator]');
+    if (config.multitenant) {
+      lines.push('- tenantId: tenant-id');
+    }
+    lines.push('- iat: 1234567890');
+    lines.push('- exp: 1234571490\n');
   }
-  lines.push('- iat: 1234567890');
-  lines.push('- exp: 1234571490\n');
 
   lines.push('## Security Best Practices\n');
   lines.push('1. Always validate roles on protected routes');
@@ -232,10 +727,26 @@ export function generateTenantContextMD(config: AuthBPContextConfig): string {
 
   lines.push('### Request-Level Isolation');
   lines.push('Tenant ID extracted from:');
-  lines.push('1. JWT token (tenantId claim)');
-  lines.push('2. Request header (X-Tenant-ID)');
+  lines.push(
+    hasSupabaseAuth(config)
+      ? '1. Supabase access token (app_metadata[SUPABASE_TENANT_CLAIM], default tenant_id)'
+      : '1. JWT token (tenantId claim)'
+  );
+  lines.push('2. Request header (X-Tenant-ID), only for unauthenticated requests: with a token it must match the token tenant or the request is rejected with 403');
   lines.push('3. Request subdomain (if whitelabel domain routing)\n');
 
+  if (config.sso) {
+    lines.push('### Enterprise SSO');
+    lines.push('Tenants sign in through their own OIDC or SAML identity providers (IdentityProvider model, see auth/.context.md).');
+    lines.push('SSO users are created inside the tenant of the provider that authenticated them.\n');
+  }
+
+  if (!hasSupabaseAuth(config)) {
+    lines.push('### Sign-up');
+    lines.push('POST /auth/register only joins a tenant named by RegisterDto.tenantId (or X-Tenant-ID) when the tenant exists (otherwise 400) and has openSignup' + (config.sso ? ' and no enabled identity provider' : '') + ' (otherwise 403).');
+    lines.push('Login never takes the tenant from the request: the token carries the tenant the user was assigned.\n');
+  }
+
   lines.push('## Data Transfer Objects (DTOs)\n');
   lines.push('### CreateTenantDto');
   lines.push('- name (string): Tenant display name, 2-100 chars [IsString, IsDefined]');
@@ -244,6 +755,7 @@ export function generateTenantContextMD(config: AuthBPContextConfig): string {
   if (config.whitelabel) {
     lines.push('- isWhitelabel (boolean, optional): Enable whitelabel mode [IsOptional]');
   }
+  lines.push('- openSignup (boolean, optional): Let anyone register into the tenant, default false [IsBoolean, IsOptional]');
   lines.push('');
 
   lines.push('## CRITICAL: Data Isolation Rules\n');
@@ -287,6 +799,9 @@ export function generateRootContextMD(config: AuthBPContextConfig): string {
   lines.push('Whitelabel: ' + config.whitelabel);
   lines.push('RBAC: ' + config.rbac);
   lines.push('Multitenant: ' + config.multitenant);
+  if (hasSupabaseAuth(config)) {
+    lines.push('Authentication: Supabase Auth (this API verifies its access tokens)');
+  }
   lines.push('Database: ' + (config.database === 'supabase' ? 'Supabase PostgreSQL' : 'Google Cloud SQL') + '\n');
 
   lines.push('## Module Structure\n');
@@ -308,27 +823,51 @@ export function generateRootContextMD(config: AuthBPContextConfig): string {
   lines.push('5. npm run dev\n');
 
   lines.push('## Key Concepts\n');
-  lines.push('### JWT Token Structure');
-  lines.push('- sub: user-id');
-  lines.push('- email: user@example.com');
-  if (config.rbac) {
-    lines.push('- roles: [user, admin]');
-  }
-  if (config.multitenant) {
-    lines.push('- tenantId: tenant-id');
+  if (hasSupabaseAuth(config)) {
+    lines.push('### JWT Token Structure (issued by Supabase Auth)');
+    lines.push('- sub: Supabase user id, also the local User.id');
+    lines.push('- email: user@example.com');
+    lines.push('- session_id: Supabase Auth session');
+    lines.push('- aud: authenticated');
+    if (config.rbac) {
+      lines.push('- app_metadata.roles: [user, admin]');
+    }
+    if (config.multitenant) {
+      lines.push('- app_metadata.tenant_id: tenant-id');
+    }
+    lines.push('- iat: issued-at');
+    lines.push('- exp: expiration\n');
+  } else {
+    lines.push('### JWT Token Structure');
+    lines.push('- sub: user-id');
+    lines.push('- email: user@example.com');
+    lines.push('- sid: session (token family) id, checked on every request');
+    lines.push('- jti: token id, checked against the denylist on every request');
+    if (config.rbac) {
+      lines.push('- roles: [user, admin]');
+    }
+    if (config.multitenant) {
+      lines.push('- tenantId: tenant-id');
+    }
+    lines.push('- iat: issued-at');
+    lines.push('- exp: expiration\n');
   }
-  lines.push('- iat: issued-at');
-  lines.push('- exp: expiration\n');
 
   lines.push('### Request Authentication');
-  lines.push('All protected endpoints require Bearer token:');
-  lines.push('Authorization: Bearer <access-token>\n');
+  if (hasCookieTransport(config)) {
+    lines.push('Browsers send the httpOnly access_token cookie set at login; state-changing requests add the csrf_token cookie value as:');
+    lines.push('X-CSRF-Token: <csrf-token>');
+    lines.push('Other clients can still send Authorization: Bearer <access-token>\n');
+  } else {
+    lines.push('All protected endpoints require Bearer token:');
+    lines.push('Authorization: Bearer <access-token>\n');
+  }
 
   if (config.multitenant) {
     lines.push('### Tenant Identification');
     lines.push('Specify tenant via:');
     lines.push('1. JWT claim (preferred) - automatically from login');
-    lines.push('2. Header - X-Tenant-ID: <tenant-id>');
+    lines.push('2. Header - X-Tenant-ID: <tenant-id> (unauthenticated requests; with a token it must match the JWT claim, otherwise 403)');
     if (config.whitelabel) {
       lines.push('3. Subdomain - acme.example.com routes to tenant with slug "acme"');
     }
@@ -340,9 +879,21 @@ export function generateRootContextMD(config: AuthBPContextConfig): string {
   lines.push('Invalid requests return 400 with error details.\n');
 
   lines.push('## Security Features\n');
-  lines.push('- Password hashing with bcrypt (salt rounds >= 10)');
-  lines.push('- JWT signing with secret key');
-  lines.push('- Short-lived access tokens + refresh token rotation');
+  if (hasSupabaseAuth(config)) {
+    lines.push('- Passwords, sign-in and refresh tokens handled by Supabase Auth');
+    lines.push('- Access tokens verified with the project JWT secret or its JWKS, issuer and audience checked');
+  } else {
+    lines.push('- Password hashing with bcrypt (salt rounds >= 10)');
+    lines.push(
+      hasAsymmetricJwt(config)
+        ? `- JWT signing with ${config.jwtAlgorithm} key pairs (public keys at /.well-known/jwks.json)`
+        : '- JWT signing with secret key'
+    );
+    lines.push('- Short-lived access tokens + refresh token rotation');
+  }
+  if (hasCookieTransport(config)) {
+    lines.push('- Tokens in httpOnly cookies, out of reach of JavaScript, with a double-submit CSRF token');
+  }
   lines.push('- Strict DTO validation (SQL injection prevention)');
   if (config.rbac) {
     lines.push('- Role-based route protection');
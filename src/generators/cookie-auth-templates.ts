@@ -0,0 +1,145 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * CookieAuthTemplates
+ *
+ * Source of the cookie token transport for browser apps: helpers that move
+ * the token pair into httpOnly cookies (and read them back for JwtStrategy
+ * and /auth/refresh), and the double-submit CSRF middleware that guards
+ * every state-changing request authenticated by those cookies.
+ */
+
+type CookieAuthTemplateConfig = Pick<AuthBPConfig, 'mfa'>;
+
+export function generateAuthCookies(config: CookieAuthTemplateConfig): string {
+  return `import { randomBytes } from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import { AuthTokens } from './jwt.service';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+/** Not httpOnly: the frontend reads it and echoes it in the CSRF header */
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * What token-issuing endpoints answer in cookie mode. The tokens themselves
+ * only travel in httpOnly cookies.
+ */
+export interface CookieSession {
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  /** Same value as the csrf_token cookie, for frontends on another domain */
+  csrfToken: string;
+}
+
+/**
+ * Cookie attributes from COOKIE_DOMAIN, COOKIE_PATH, COOKIE_SAME_SITE and
+ * COOKIE_SECURE (only "false" turns Secure off, for plain http in development)
+ */
+function cookieOptions(path = process.env.COOKIE_PATH ?? '/'): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: process.env.COOKIE_SECURE !== 'false',
+    sameSite: (process.env.COOKIE_SAME_SITE ?? 'lax') as CookieOptions['sameSite'],
+    domain: process.env.COOKIE_DOMAIN || undefined,
+    path,
+  };
+}
+
+/**
+ * The refresh token is only sent to the auth routes (REFRESH_COOKIE_PATH)
+ */
+function refreshCookieOptions(): CookieOptions {
+  return cookieOptions(process.env.REFRESH_COOKIE_PATH ?? '/auth');
+}
+
+/**
+ * Set the access, refresh and CSRF cookies. A new CSRF token is issued with
+ * every token pair.
+ */
+export function setAuthCookies(response: Response, tokens: AuthTokens): CookieSession {
+  // Same default as JwtTokenService
+  const refreshTtl = Number(process.env.JWT_REFRESH_EXPIRATION ?? 60 * 60 * 24 * 30);
+  const csrfToken = randomBytes(32).toString('base64url');
+
+  response.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, { ...cookieOptions(), maxAge: tokens.expiresIn * 1000 });
+  response.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...refreshCookieOptions(), maxAge: refreshTtl * 1000 });
+  response.cookie(CSRF_COOKIE, csrfToken, { ...cookieOptions(), httpOnly: false, maxAge: refreshTtl * 1000 });
+
+  return { expiresIn: tokens.expiresIn, csrfToken };
+}${
+    config.mfa
+      ? `
+
+/**
+ * setAuthCookies for login results, which are a token pair or an MFA
+ * challenge; the challenge is returned as is
+ */
+export function setLoginCookies<T extends object>(response: Response, result: AuthTokens | T): CookieSession | T {
+  return 'accessToken' in result ? setAuthCookies(response, result) : result;
+}`
+      : ''
+  }
+
+export function clearAuthCookies(response: Response): void {
+  response.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions());
+  response.clearCookie(REFRESH_TOKEN_COOKIE, refreshCookieOptions());
+  response.clearCookie(CSRF_COOKIE, { ...cookieOptions(), httpOnly: false });
+}
+
+/**
+ * passport-jwt extractor for the access token cookie
+ */
+export function fromAccessTokenCookie(request: Request): string | null {
+  return request.cookies?.[ACCESS_TOKEN_COOKIE] ?? null;
+}
+
+export function getRefreshTokenCookie(request: Request): string | undefined {
+  return request.cookies?.[REFRESH_TOKEN_COOKIE];
+}
+`;
+}
+
+export function generateCsrfMiddleware(config: CookieAuthTemplateConfig): string {
+  return `import { ForbiddenException, Injectable, NestMiddleware } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { ACCESS_TOKEN_COOKIE, CSRF_COOKIE, CSRF_HEADER, REFRESH_TOKEN_COOKIE } from './auth-cookies';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Double-submit CSRF check. A state-changing request that carries the auth
+ * cookies must repeat the csrf_token cookie in the X-CSRF-Token header:
+ * another site can make the browser send the cookies, but cannot read them.
+ * Requests with an Authorization header are authenticated by that header
+ * (JwtStrategy reads it first) and are not checked.
+ */
+@Injectable()
+export class CsrfMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    if (SAFE_METHODS.has(request.method) || request.headers.authorization || !hasAuthCookie(request)) {
+      return next();
+    }
+
+    const cookie = request.cookies?.[CSRF_COOKIE];
+    const header = request.header(CSRF_HEADER);
+    if (!cookie || !header || !safeEqual(cookie, header)) {
+      return next(new ForbiddenException('Invalid CSRF token'));
+    }
+    next();
+  }
+}
+
+function hasAuthCookie(request: Request): boolean {
+  return Boolean(request.cookies?.[ACCESS_TOKEN_COOKIE] || request.cookies?.[REFRESH_TOKEN_COOKIE]);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+`;
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG } from '../prompts';
+import { setWriteOptions } from '../utils/file-generator';
+import { getNestMajor, getRequiredDependencies, patchPackageJson } from './dependencies.generator';
+
+describe('getNestMajor', () => {
+  it('reads the major of @nestjs/core', () => {
+    expect(getNestMajor({ dependencies: { '@nestjs/core': '^11.0.1' } })).toBe(11);
+    expect(getNestMajor({ devDependencies: { '@nestjs/core': '~10.4.0' } })).toBe(10);
+  });
+
+  it('is null without a version number', () => {
+    expect(getNestMajor({ dependencies: { '@nestjs/core': 'latest' } })).toBeNull();
+    expect(getNestMajor({})).toBeNull();
+  });
+});
+
+describe('getRequiredDependencies', () => {
+  const nestPackages = (nestMajor: number | null) => {
+    const { dependencies } = getRequiredDependencies(DEFAULT_CONFIG, nestMajor);
+    return [dependencies['@nestjs/passport'], dependencies['@nestjs/jwt'], dependencies['@nestjs/schedule']];
+  };
+
+  it('picks the @nestjs/* ranges whose peers accept the host major', () => {
+    expect(nestPackages(9)).toEqual(['^10.0.3', '^10.2.0', '^4.1.0']);
+    expect(nestPackages(10)).toEqual(['^10.0.3', '^10.2.0', '^4.1.0']);
+    expect(nestPackages(11)).toEqual(['^11.0.5', '^11.0.2', '^6.1.3']);
+    expect(nestPackages(12)).toEqual(['^12.0.0', '^12.0.2', '^12.0.2']);
+  });
+
+  it('uses the newest ranges for an unknown or newer major', () => {
+    expect(nestPackages(null)).toEqual(nestPackages(12));
+    expect(nestPackages(13)).toEqual(nestPackages(12));
+  });
+
+  it('does not require typeorm', () => {
+    expect(getRequiredDependencies(DEFAULT_CONFIG).dependencies).not.toHaveProperty('typeorm');
+  });
+});
+
+describe('patchPackageJson', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-bp-nest-'));
+    setWriteOptions({ projectRoot });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(projectRoot);
+  });
+
+  it('adds the ranges matching the host @nestjs/core and keeps declared ones', async () => {
+    await fs.writeJson(path.join(projectRoot, 'package.json'), {
+      dependencies: { '@nestjs/core': '^11.1.0', '@nestjs/jwt': '^11.0.0' },
+    });
+
+    const result = await patchPackageJson(projectRoot, { sourceRoot: 'src' }, DEFAULT_CONFIG);
+
+    const { dependencies } = await fs.readJson(path.join(projectRoot, 'package.json'));
+    expect(dependencies['@nestjs/passport']).toBe('^11.0.5');
+    expect(dependencies['@nestjs/schedule']).toBe('^6.1.3');
+    expect(dependencies['@nestjs/jwt']).toBe('^11.0.0');
+    expect(result.added).not.toContain('@nestjs/jwt@^11.0.2');
+  });
+});
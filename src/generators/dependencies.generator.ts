@@ -0,0 +1,293 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { spawn } from 'child_process';
+import chalk from 'chalk';
+import { writeFile, readCurrentFile } from '../utils/file-generator';
+import { AuthBPConfig, hasCookieTransport, hasSupabaseAuth } from '../prompts';
+import { NestProjectLayout } from '../utils/nest-project';
+
+/**
+ * DependenciesGenerator
+ *
+ * Works out the packages the generated code needs for a configuration and
+ * adds them, with the Prisma scripts, to the host package.json. Versions the
+ * host already declares are kept. The @nestjs/* packages follow the host's
+ * @nestjs/core major, whose peer ranges they must satisfy. Installing is left
+ * to the host's package manager, detected from its lockfile.
+ */
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+export interface DependencySet {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+export interface PackageJsonPatchResult {
+  /** Packages that were not declared yet, e.g. `@nestjs/jwt@^10.2.0` */
+  added: string[];
+  scripts: string[];
+}
+
+/**
+ * Prisma scripts for the schema generated under the source root
+ */
+export function getPrismaScripts(sourceRoot: string): Record<string, string> {
+  const schema = `${sourceRoot}/database/schema.prisma`;
+  return {
+    'prisma:generate': `prisma generate --schema ${schema}`,
+    'prisma:migrate': `prisma migrate dev --schema ${schema}`,
+    'prisma:deploy': `prisma migrate deploy --schema ${schema}`,
+    'prisma:studio': `prisma studio --schema ${schema}`,
+  };
+}
+
+/**
+ * Nest majors with known ranges for the @nestjs/* packages the generated code
+ * imports. A host on an older major gets the lowest entry, one on a newer or
+ * unknown major the highest.
+ */
+const NEST_PACKAGE_RANGES: Array<[number, Record<string, string>]> = [
+  [10, { '@nestjs/passport': '^10.0.3', '@nestjs/jwt': '^10.2.0', '@nestjs/schedule': '^4.1.0' }],
+  [11, { '@nestjs/passport': '^11.0.5', '@nestjs/jwt': '^11.0.2', '@nestjs/schedule': '^6.1.3' }],
+  [12, { '@nestjs/passport': '^12.0.0', '@nestjs/jwt': '^12.0.2', '@nestjs/schedule': '^12.0.2' }],
+];
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+/**
+ * Major version of the host's @nestjs/core, or null when it is not declared
+ * with a version number (e.g. "latest" or a workspace link)
+ */
+export function getNestMajor(packageJson: Record<string, any>): number | null {
+  const range: unknown =
+    packageJson.dependencies?.['@nestjs/core'] ?? packageJson.devDependencies?.['@nestjs/core'];
+  const major = typeof range === 'string' ? /\d+/.exec(range)?.[0] : undefined;
+  return major === undefined ? null : Number(major);
+}
+
+/**
+ * Major version of @nestjs/core in the host package.json, or null when there
+ * is no package.json or it declares no version number
+ */
+export async function readNestMajor(projectRoot: string): Promise<number | null> {
+  const source = await readCurrentFile(path.join(projectRoot, 'package.json'));
+  if (source === null) {
+    return null;
+  }
+
+  try {
+    return getNestMajor(JSON.parse(source));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ranges of the @nestjs/* packages matching a Nest major
+ */
+export function getNestPackageRanges(nestMajor: number | null): Record<string, string> {
+  const entry =
+    nestMajor === null
+      ? undefined
+      : NEST_PACKAGE_RANGES.find(([major]) => major >= nestMajor);
+  return (entry ?? NEST_PACKAGE_RANGES[NEST_PACKAGE_RANGES.length - 1])[1];
+}
+
+/**
+ * Packages imported by the code generated for a configuration, for a host on
+ * the given Nest major
+ */
+export function getRequiredDependencies(
+  config: AuthBPConfig,
+  nestMajor: number | null = null
+): DependencySet {
+  const nest = getNestPackageRanges(nestMajor);
+  const set: DependencySet = {
+    dependencies: {
+      '@nestjs/passport': nest['@nestjs/passport'],
+      passport: '^0.7.0',
+      'passport-jwt': '^4.0.1',
+      'class-validator': '^0.14.1',
+      'class-transformer': '^0.5.1',
+      '@prisma/client': '^5.22.0',
+    },
+    devDependencies: {
+      prisma: '^5.22.0',
+      '@types/passport-jwt': '^4.0.1',
+    },
+  };
+
+  if (hasSupabaseAuth(config)) {
+    // Public keys of the Supabase JWT signing keys
+    set.dependencies['jwks-rsa'] = '^3.1.0';
+  } else {
+    Object.assign(set.dependencies, {
+      '@nestjs/jwt': nest['@nestjs/jwt'],
+      '@nestjs/schedule': nest['@nestjs/schedule'],
+      bcryptjs: '^2.4.3',
+      nodemailer: '^6.9.16',
+      ioredis: '^5.4.1',
+    });
+    Object.assign(set.devDependencies, {
+      '@types/bcryptjs': '^2.4.6',
+      '@types/nodemailer': '^6.4.17',
+    });
+  }
+
+  if (config.hardenMain) {
+    set.dependencies.helmet = '^7.1.0';
+  }
+
+  const socialProviders = config.socialProviders ?? [];
+  if (socialProviders.length > 0 || config.sso) {
+    set.dependencies['cookie-session'] = '^2.1.0';
+    set.devDependencies['@types/cookie-session'] = '^2.0.49';
+  }
+  if (socialProviders.includes('google')) {
+    set.dependencies['passport-google-oauth20'] = '^2.0.0';
+    set.devDependencies['@types/passport-google-oauth20'] = '^2.0.16';
+  }
+  if (socialProviders.includes('github')) {
+    set.dependencies['passport-github2'] = '^0.1.12';
+    set.devDependencies['@types/passport-github2'] = '^1.2.9';
+  }
+  if (socialProviders.includes('oidc') || config.sso) {
+    // 6.x dropped the passport strategy
+    set.dependencies['openid-client'] = '^5.7.0';
+  }
+  if (config.sso) {
+    set.dependencies['@node-saml/node-saml'] = '^5.0.0';
+  }
+  if (config.apiKeys) {
+    set.dependencies['passport-custom'] = '^1.1.1';
+  }
+  if (hasCookieTransport(config)) {
+    set.dependencies['cookie-parser'] = '^1.4.7';
+    set.devDependencies['@types/cookie-parser'] = '^1.4.7';
+  }
+
+  return set;
+}
+
+/**
+ * Detect the host package manager from its lockfile (npm when there is none)
+ */
+export async function detectPackageManager(projectRoot: string): Promise<PackageManager> {
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    if (await fs.pathExists(path.join(projectRoot, lockfile))) {
+      return packageManager;
+    }
+  }
+  return 'npm';
+}
+
+/**
+ * Add the required dependencies and Prisma scripts to the host package.json
+ */
+export async function patchPackageJson(
+  projectRoot: string,
+  layout: NestProjectLayout,
+  config: AuthBPConfig
+): Promise<PackageJsonPatchResult> {
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  const source = await readCurrentFile(packageJsonPath);
+
+  if (source === null) {
+    const required = getRequiredDependencies(config);
+    console.log(chalk.yellow('⚠️  package.json not found, install these packages yourself:'));
+    for (const [name, version] of Object.entries(required.dependencies)) {
+      console.log(`  - ${name}@${version}`);
+    }
+    for (const [name, version] of Object.entries(required.devDependencies)) {
+      console.log(`  - ${name}@${version} (dev)`);
+    }
+    return { added: [], scripts: [] };
+  }
+
+  let packageJson: Record<string, any>;
+  try {
+    packageJson = JSON.parse(source);
+  } catch (error: any) {
+    throw new Error(`Could not parse package.json: ${error.message}`);
+  }
+
+  const required = getRequiredDependencies(config, getNestMajor(packageJson));
+
+  const declared = new Set([
+    ...Object.keys(packageJson.dependencies ?? {}),
+    ...Object.keys(packageJson.devDependencies ?? {}),
+  ]);
+  const result: PackageJsonPatchResult = { added: [], scripts: [] };
+
+  for (const field of ['dependencies', 'devDependencies'] as const) {
+    const missing = Object.entries(required[field]).filter(([name]) => !declared.has(name));
+    if (missing.length === 0) {
+      continue;
+    }
+
+    // Package managers keep these sorted, so do the same
+    packageJson[field] = sortKeys({ ...packageJson[field], ...Object.fromEntries(missing) });
+    result.added.push(...missing.map(([name, version]) => `${name}@${version}`));
+  }
+
+  packageJson.scripts = packageJson.scripts ?? {};
+  for (const [name, command] of Object.entries(getPrismaScripts(layout.sourceRoot))) {
+    if (packageJson.scripts[name] === undefined) {
+      packageJson.scripts[name] = command;
+      result.scripts.push(name);
+    }
+  }
+
+  if (result.added.length === 0 && result.scripts.length === 0) {
+    console.log(chalk.gray('✓ package.json already up to date'));
+    return result;
+  }
+
+  const indent = /^([ \t]+)"/m.exec(source)?.[1] ?? '  ';
+  await writeFile(packageJsonPath, `${JSON.stringify(packageJson, null, indent)}\n`, {
+    tracked: false,
+  });
+  console.log(
+    chalk.green(
+      `✓ package.json updated (${result.added.length} packages, ${result.scripts.length} scripts)`
+    )
+  );
+  return result;
+}
+
+/**
+ * Run `<packageManager> install` in the host project
+ */
+export function installDependencies(
+  projectRoot: string,
+  packageManager: PackageManager
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(packageManager, ['install'], {
+      cwd: projectRoot,
+      stdio: 'inherit',
+      shell: process.platform === 'win32',
+    });
+
+    child.on('error', (error) => {
+      reject(new Error(`Failed to run ${packageManager} install: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`${packageManager} install exited with code ${code}`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,54 @@
+import 'reflect-metadata';
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import { createLoginDTO, createRegisterDTO, DTOWriterConfig, generateDTOClass } from './dto-writer';
+
+/** A Tenant id as the generated schema creates it, @default(cuid()) */
+const TENANT_ID = 'clx0k2m3n0000qz8v4h7w9e1a';
+
+describe('generated auth DTOs', () => {
+  const config: DTOWriterConfig = { whitelabel: true, rbac: false, multitenant: true, database: 'supabase' };
+  // The options configure-app.ts gives the global ValidationPipe
+  const pipe = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true });
+
+  let code: GeneratedCode;
+  let dtos: Record<string, any>;
+
+  const validate = (className: string, body: object) =>
+    pipe.transform(body, { type: 'body', metatype: dtos[className] });
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({
+      'login.dto.ts': generateDTOClass(createLoginDTO(config), config),
+      'register.dto.ts': generateDTOClass(createRegisterDTO(config), config),
+    });
+    dtos = { ...code.load('login.dto'), ...code.load('register.dto') };
+  });
+
+  afterAll(() => code.remove());
+
+  it('logs in with a cuid tenant id', async () => {
+    const body = { email: 'jane@example.com', password: 'correct horse', tenantId: TENANT_ID };
+
+    await expect(validate('LoginDto', body)).resolves.toMatchObject(body);
+  });
+
+  it('registers with a cuid tenant and brand id', async () => {
+    const body = {
+      email: 'jane@example.com',
+      password: 'Correct-Horse-1',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      tenantId: TENANT_ID,
+      brandId: TENANT_ID,
+    };
+
+    await expect(validate('RegisterDto', body)).resolves.toMatchObject(body);
+  });
+
+  it('rejects an empty tenant id', async () => {
+    const body = { email: 'jane@example.com', password: 'correct horse', tenantId: '' };
+
+    await expect(validate('LoginDto', body)).rejects.toThrow(BadRequestException);
+  });
+});
@@ -1,5 +1,6 @@
 import * as path from 'path';
-import * as fs from 'fs-extra';
+import { writeFile, ensureDir } from '../utils/file-generator';
+import { hasCookieTransport, hasMagicLink, hasPasswordLogin, LoginMethod, TokenTransport } from '../prompts';
 
 /**
  * DTOWriter
@@ -14,6 +15,13 @@ export interface DTOWriterConfig {
   rbac: boolean;
   multitenant: boolean;
   database: 'supabase' | 'gcloud-sql';
+  loginMethod?: LoginMethod;
+  emailVerification?: boolean;
+  mfa?: boolean;
+  sso?: boolean;
+  apiKeys?: boolean;
+  loginProtection?: boolean;
+  tokenTransport?: TokenTransport;
 }
 
 export interface DTOProperty {
@@ -41,8 +49,7 @@ export async function writeDTOFile(
   config: DTOWriterConfig
 ): Promise<void> {
   const content = generateDTOClass(dto, config);
-  await fs.ensureDir(path.dirname(filePath));
-  await fs.writeFile(filePath, content, 'utf-8');
+  await writeFile(filePath, content);
 }
 
 /**
@@ -59,6 +66,19 @@ export function generateDTOClass(
   return `${imports}\n${classDeclaration} {\n${classBody}\n}\n`;
 }
 
+const COMMON_VALIDATORS = [
+  'IsEmail',
+  'IsString',
+  'IsStrongPassword',
+  'MinLength',
+  'MaxLength',
+  'Matches',
+  'IsOptional',
+  'IsUUID',
+  'IsDefined',
+  'ValidationError',
+];
+
 /**
  * Generate import statements based on DTO properties
  */
@@ -68,9 +88,12 @@ function generateDTOImports(dto: DTODefinition, config: DTOWriterConfig): string
   // Check if we need class-validator decorators
   const needsValidation = dto.properties.some((p) => p.validators && p.validators.length > 0);
   if (needsValidation) {
-    imports.add(
-      "import { IsEmail, IsString, IsStrongPassword, MinLength, MaxLength, Matches, IsOptional, IsUUID, IsDefined, ValidationError } from 'class-validator';"
-    );
+    // Validators outside the common set are imported only where they are used
+    const validatorNames = new Set(COMMON_VALIDATORS);
+    for (const validator of dto.properties.flatMap((p) => p.validators ?? [])) {
+      validatorNames.add(validator.slice(0, validator.indexOf('(')));
+    }
+    imports.add(`import { ${Array.from(validatorNames).join(', ')} } from 'class-validator';`);
   }
 
   // Check if we need class-transformer decorators
@@ -184,9 +207,9 @@ export function createLoginDTO(config: DTOWriterConfig): DTODefinition {
         ? [
             {
               name: 'tenantId',
-              type: 'UUID',
+              type: 'string',
               isOptional: true,
-              validators: ['IsUUID()', 'IsOptional()'],
+              validators: ['IsString()', 'IsNotEmpty()', 'IsOptional()'],
               description: 'Optional tenant identifier for multitenant login',
             },
           ]
@@ -206,12 +229,25 @@ export function createRegisterDTO(config: DTOWriterConfig): DTODefinition {
       validators: ['IsEmail()', 'IsDefined()'],
       description: 'User email address (unique)',
     },
-    {
-      name: 'password',
-      type: 'password',
-      validators: ['IsString()', 'IsStrongPassword()', 'MinLength(8)', 'IsDefined()'],
-      description: 'User password (minimum 8 characters, must be strong)',
-    },
+    // Magic link only: no password. Both: users may register without one
+    ...(hasPasswordLogin(config)
+      ? [
+          hasMagicLink(config)
+            ? {
+                name: 'password',
+                type: 'password',
+                isOptional: true,
+                validators: ['IsString()', 'IsStrongPassword()', 'MinLength(8)', 'IsOptional()'],
+                description: 'User password (omit to sign in with magic links only)',
+              }
+            : {
+                name: 'password',
+                type: 'password',
+                validators: ['IsString()', 'IsStrongPassword()', 'MinLength(8)', 'IsDefined()'],
+                description: 'User password (minimum 8 characters, must be strong)',
+              },
+        ]
+      : []),
     {
       name: 'firstName',
       type: 'string',
@@ -230,9 +266,9 @@ export function createRegisterDTO(config: DTOWriterConfig): DTODefinition {
   if (config.whitelabel) {
     properties.push({
       name: 'brandId',
-      type: 'UUID',
+      type: 'string',
       isOptional: true,
-      validators: ['IsUUID()', 'IsOptional()'],
+      validators: ['IsString()', 'IsNotEmpty()', 'IsOptional()'],
       description: 'Brand/Whitelabel identifier',
     });
     properties.push({
@@ -248,9 +284,9 @@ export function createRegisterDTO(config: DTOWriterConfig): DTODefinition {
   if (config.multitenant) {
     properties.push({
       name: 'tenantId',
-      type: 'UUID',
+      type: 'string',
       isOptional: true,
-      validators: ['IsUUID()', 'IsOptional()'],
+      validators: ['IsString()', 'IsNotEmpty()', 'IsOptional()'],
       description: 'Tenant identifier (if registering for specific tenant)',
     });
   }
@@ -269,12 +305,289 @@ export function createRefreshTokenDTO(config: DTOWriterConfig): DTODefinition {
   return {
     className: 'RefreshTokenDto',
     description: 'Request for token refresh',
+    properties: [
+      hasCookieTransport(config)
+        ? {
+            name: 'refreshToken',
+            type: 'string',
+            isOptional: true,
+            validators: ['IsString()', 'IsOptional()'],
+            description: 'Valid refresh token (defaults to the refresh_token cookie)',
+          }
+        : {
+            name: 'refreshToken',
+            type: 'string',
+            validators: ['IsString()', 'IsDefined()'],
+            description: 'Valid refresh token',
+          },
+    ],
+  };
+}
+
+/**
+ * RevokeTokenDTO - Revoke a single access token
+ */
+export function createRevokeTokenDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'RevokeTokenDto',
+    description: 'Access token to revoke',
     properties: [
       {
-        name: 'refreshToken',
+        name: 'token',
         type: 'string',
         validators: ['IsString()', 'IsDefined()'],
-        description: 'Valid refresh token',
+        description: 'Access token (JWT)',
+      },
+    ],
+  };
+}
+
+/**
+ * ForgotPasswordDTO - Request a password reset link
+ */
+export function createForgotPasswordDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'ForgotPasswordDto',
+    description: 'Request a password reset email',
+    properties: [
+      {
+        name: 'email',
+        type: 'email',
+        validators: ['IsEmail()', 'IsDefined()'],
+        description: 'Email address of the account',
+      },
+    ],
+  };
+}
+
+/**
+ * ResetPasswordDTO - Set a new password with a reset token
+ */
+export function createResetPasswordDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'ResetPasswordDto',
+    description: 'Set a new password using the token from the reset email',
+    properties: [
+      {
+        name: 'token',
+        type: 'string',
+        validators: ['IsString()', 'IsDefined()'],
+        description: 'Password reset token from the emailed link',
+      },
+      {
+        name: 'password',
+        type: 'password',
+        validators: ['IsString()', 'IsStrongPassword()', 'MinLength(8)', 'IsDefined()'],
+        description: 'New password (minimum 8 characters, must be strong)',
+      },
+    ],
+  };
+}
+
+/**
+ * VerifyEmailDTO - Redeem an email verification token
+ */
+export function createVerifyEmailDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'VerifyEmailDto',
+    description: 'Verify an email address using the token from the verification email',
+    properties: [
+      {
+        name: 'token',
+        type: 'string',
+        validators: ['IsString()', 'IsDefined()'],
+        description: 'Email verification token from the emailed link',
+      },
+    ],
+  };
+}
+
+/**
+ * MfaCodeDTO - TOTP or recovery code for MFA confirm/disable
+ */
+export function createMfaCodeDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'MfaCodeDto',
+    description: 'A 6-digit TOTP code, or a recovery code where accepted',
+    properties: [
+      {
+        name: 'code',
+        type: 'string',
+        validators: ['IsString()', 'MinLength(6)', 'MaxLength(11)', 'IsDefined()'],
+        description: 'Code from the authenticator app or a recovery code',
+      },
+    ],
+  };
+}
+
+/**
+ * MfaVerifyDTO - Second login step
+ */
+export function createMfaVerifyDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'MfaVerifyDto',
+    description: 'Exchange an MFA challenge and a code for tokens',
+    properties: [
+      {
+        name: 'challengeToken',
+        type: 'string',
+        validators: ['IsString()', 'IsDefined()'],
+        description: 'challengeToken returned by /auth/login',
+      },
+      {
+        name: 'code',
+        type: 'string',
+        validators: ['IsString()', 'MinLength(6)', 'MaxLength(11)', 'IsDefined()'],
+        description: 'Code from the authenticator app or a recovery code',
+      },
+    ],
+  };
+}
+
+/**
+ * MagicLinkRequestDTO - Email a sign-in link
+ */
+export function createMagicLinkRequestDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'MagicLinkRequestDto',
+    description: 'Request a sign-in link by email',
+    properties: [
+      {
+        name: 'email',
+        type: 'email',
+        validators: ['IsEmail()', 'IsDefined()'],
+        description: 'Account email address',
+      },
+      ...(config.multitenant
+        ? [
+            {
+              name: 'tenantId',
+              type: 'string',
+              isOptional: true,
+              validators: ['IsString()', 'IsNotEmpty()', 'IsOptional()'],
+              description: 'Optional tenant identifier for multitenant login',
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+/**
+ * MagicLinkVerifyDTO - Redeem a sign-in link
+ */
+export function createMagicLinkVerifyDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'MagicLinkVerifyDto',
+    description: 'Sign in with the token from a magic link',
+    properties: [
+      {
+        name: 'token',
+        type: 'string',
+        validators: ['IsString()', 'IsDefined()'],
+        description: 'Token from the emailed sign-in link',
+      },
+    ],
+  };
+}
+
+/**
+ * UnlockAccountDTO - Lift a login lockout
+ */
+export function createUnlockAccountDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'UnlockAccountDto',
+    description: 'Unlock an account locked after failed logins',
+    properties: [
+      {
+        name: 'token',
+        type: 'string',
+        validators: ['IsString()', 'IsDefined()'],
+        description: 'Token from the emailed unlock link',
+      },
+    ],
+  };
+}
+
+/**
+ * SsoDiscoverDTO - Find the identity provider for an email or tenant
+ */
+export function createSsoDiscoverDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'SsoDiscoverDto',
+    description: 'Find the single sign-on provider for an email domain or a tenant',
+    properties: [
+      {
+        name: 'email',
+        type: 'string',
+        isOptional: true,
+        validators: ['IsEmail()', 'IsOptional()'],
+        description: 'Email address; its domain selects the provider',
+      },
+      {
+        name: 'tenant',
+        type: 'string',
+        isOptional: true,
+        validators: ['IsString()', 'MaxLength(100)', 'IsOptional()'],
+        description: 'Tenant slug, used when no provider claims the email domain',
+      },
+    ],
+  };
+}
+
+/**
+ * CreateApiKeyDTO - Create a key for machine-to-machine access
+ */
+export function createCreateApiKeyDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'CreateApiKeyDto',
+    description: 'Create an API key; the key is only returned in the response',
+    properties: [
+      {
+        name: 'name',
+        type: 'string',
+        validators: ['IsString()', 'MinLength(1)', 'MaxLength(100)', 'IsDefined()'],
+        description: 'Label to tell keys apart',
+      },
+      {
+        name: 'scopes',
+        type: 'string[]',
+        isOptional: true,
+        validators: ['IsArray()', 'IsString({ each: true })', 'MaxLength(100, { each: true })', 'IsOptional()'],
+        description: 'Scopes checked by @AllowApiKey() and @RequireApiKey()',
+      },
+      {
+        name: 'expiresAt',
+        type: 'string',
+        isOptional: true,
+        validators: ['IsDateString()', 'IsOptional()'],
+        description: 'ISO 8601 expiry; the key never expires when omitted',
+      },
+    ],
+  };
+}
+
+/**
+ * UpdateApiKeyDTO - Rename a key or change its scopes
+ */
+export function createUpdateApiKeyDTO(config: DTOWriterConfig): DTODefinition {
+  return {
+    className: 'UpdateApiKeyDto',
+    description: 'Rename an API key or replace its scopes',
+    properties: [
+      {
+        name: 'name',
+        type: 'string',
+        isOptional: true,
+        validators: ['IsString()', 'MinLength(1)', 'MaxLength(100)', 'IsOptional()'],
+        description: 'Label to tell keys apart',
+      },
+      {
+        name: 'scopes',
+        type: 'string[]',
+        isOptional: true,
+        validators: ['IsArray()', 'IsString({ each: true })', 'MaxLength(100, { each: true })', 'IsOptional()'],
+        description: 'Replaces the scopes of the key',
       },
     ],
   };
@@ -312,9 +625,9 @@ export function createRoleDTO(config: DTOWriterConfig): DTODefinition {
         ? [
             {
               name: 'tenantId',
-              type: 'UUID',
+              type: 'string',
               isOptional: true,
-              validators: ['IsUUID()', 'IsOptional()'],
+              validators: ['IsString()', 'IsNotEmpty()', 'IsOptional()'],
               description: 'Tenant-scoped role (if multitenant)',
             },
           ]
@@ -333,14 +646,14 @@ export function createAssignRoleDTO(config: DTOWriterConfig): DTODefinition {
     properties: [
       {
         name: 'userId',
-        type: 'UUID',
-        validators: ['IsUUID()', 'IsDefined()'],
+        type: 'string',
+        validators: ['IsString()', 'IsNotEmpty()', 'IsDefined()'],
         description: 'User identifier',
       },
       {
         name: 'roleId',
-        type: 'UUID',
-        validators: ['IsUUID()', 'IsDefined()'],
+        type: 'string',
+        validators: ['IsString()', 'IsNotEmpty()', 'IsDefined()'],
         description: 'Role identifier',
       },
     ],
@@ -383,6 +696,14 @@ export function createTenantDTO(config: DTOWriterConfig): DTODefinition {
     });
   }
 
+  properties.push({
+    name: 'openSignup',
+    type: 'boolean',
+    isOptional: true,
+    validators: ['IsBoolean()', 'IsOptional()'],
+    description: 'Let anyone register into this tenant',
+  });
+
   return {
     className: 'CreateTenantDto',
     description: 'Create a new tenant',
@@ -394,19 +715,60 @@ export function createTenantDTO(config: DTOWriterConfig): DTODefinition {
  * Write all standard DTOs for auth module
  */
 export async function writeAuthDTOs(
-  projectRoot: string,
+  sourceDir: string,
   authDtoPath: string,
   config: DTOWriterConfig
 ): Promise<void> {
-  const dtosDir = path.join(projectRoot, 'src', authDtoPath);
-  await fs.ensureDir(dtosDir);
+  const dtosDir = path.join(sourceDir, authDtoPath);
+  await ensureDir(dtosDir);
 
   const dtos = [
-    { name: 'login.dto.ts', dto: createLoginDTO(config) },
     { name: 'register.dto.ts', dto: createRegisterDTO(config) },
     { name: 'refresh-token.dto.ts', dto: createRefreshTokenDTO(config) },
+    { name: 'revoke-token.dto.ts', dto: createRevokeTokenDTO(config) },
   ];
 
+  if (hasPasswordLogin(config)) {
+    dtos.push(
+      { name: 'login.dto.ts', dto: createLoginDTO(config) },
+      { name: 'forgot-password.dto.ts', dto: createForgotPasswordDTO(config) },
+      { name: 'reset-password.dto.ts', dto: createResetPasswordDTO(config) }
+    );
+  }
+
+  if (hasMagicLink(config)) {
+    dtos.push(
+      { name: 'magic-link-request.dto.ts', dto: createMagicLinkRequestDTO(config) },
+      { name: 'magic-link-verify.dto.ts', dto: createMagicLinkVerifyDTO(config) }
+    );
+  }
+
+  if (config.emailVerification) {
+    dtos.push({ name: 'verify-email.dto.ts', dto: createVerifyEmailDTO(config) });
+  }
+
+  if (config.mfa) {
+    dtos.push(
+      { name: 'mfa-code.dto.ts', dto: createMfaCodeDTO(config) },
+      { name: 'mfa-verify.dto.ts', dto: createMfaVerifyDTO(config) }
+    );
+  }
+
+  if (config.sso) {
+    dtos.push({ name: 'sso-discover.dto.ts', dto: createSsoDiscoverDTO(config) });
+  }
+
+  if (config.loginProtection) {
+    dtos.push({ name: 'unlock-account.dto.ts', dto: createUnlockAccountDTO(config) });
+  }
+
+  if (config.apiKeys) {
+    dtos.push(
+      { name: 'create-api-key.dto.ts', dto: createCreateApiKeyDTO(config) },
+      { name: 'update-api-key.dto.ts', dto: createUpdateApiKeyDTO(config) }
+    );
+  }
+
   for (const { name, dto } of dtos) {
     await writeDTOFile(path.join(dtosDir, name), dto, config);
   }
@@ -416,7 +778,7 @@ export async function writeAuthDTOs(
  * Write all DTOs for RBAC module (if enabled)
  */
 export async function writeRBACDTOs(
-  projectRoot: string,
+  sourceDir: string,
   rbacDtoPath: string,
   config: DTOWriterConfig
 ): Promise<void> {
@@ -424,8 +786,8 @@ export async function writeRBACDTOs(
     return;
   }
 
-  const dtosDir = path.join(projectRoot, 'src', rbacDtoPath);
-  await fs.ensureDir(dtosDir);
+  const dtosDir = path.join(sourceDir, rbacDtoPath);
+  await ensureDir(dtosDir);
 
   const dtos = [
     { name: 'create-role.dto.ts', dto: createRoleDTO(config) },
@@ -441,7 +803,7 @@ export async function writeRBACDTOs(
  * Write all DTOs for tenant module (if enabled)
  */
 export async function writeTenantDTOs(
-  projectRoot: string,
+  sourceDir: string,
   tenantDtoPath: string,
   config: DTOWriterConfig
 ): Promise<void> {
@@ -449,8 +811,8 @@ export async function writeTenantDTOs(
     return;
   }
 
-  const dtosDir = path.join(projectRoot, 'src', tenantDtoPath);
-  await fs.ensureDir(dtosDir);
+  const dtosDir = path.join(sourceDir, tenantDtoPath);
+  await ensureDir(dtosDir);
 
   const dtos = [{ name: 'create-tenant.dto.ts', dto: createTenantDTO(config) }];
 
@@ -2,78 +2,76 @@ import * as path from 'path';
 import { spawn } from 'child_process';
 import chalk from 'chalk';
 import * as fs from 'fs-extra';
+import { markScaffolded } from '../utils/file-generator';
 
 /**
  * GeneratorOrchestrator
- * 
+ *
  * Manages the spawning of NestJS CLI commands to generate modules, controllers,
- * services, and DTOs. This ensures structural compliance with NestJS conventions
- * while maintaining the ability to inject dynamic code.
+ * services, guards and middleware. This ensures structural compliance with NestJS
+ * conventions (nest-cli.json sourceRoot, monorepo projects, module registration)
+ * while the built-in writers inject the actual content into the created files.
  */
 
 export interface OrchestratorConfig {
   projectRoot: string;
-  config: {
-    database: 'supabase' | 'gcloud-sql';
-    whitelabel: boolean;
-    rbac: boolean;
-    multitenant: boolean;
-  };
+  /** Absolute source root the Nest CLI generates into */
+  sourceDir: string;
+  /** Monorepo project name, passed as --project */
+  project?: string;
 }
 
+export type NestSchematic = 'module' | 'controller' | 'service' | 'guard' | 'middleware';
+
 export interface ModuleGenerationOptions {
   moduleName: string;
-  modulePath: string; // e.g., 'modules/auth'
-  generateController?: boolean;
-  generateService?: boolean;
-  generateDTOs?: string[]; // e.g., ['login.dto', 'register.dto']
+  modulePath: string; // e.g., 'auth', relative to the source root
+  schematics: NestSchematic[];
 }
 
 /**
- * Orchestrate the generation of NestJS modules, controllers, services, and DTOs
- * using the host project's installed Nest CLI
+ * Orchestrate the generation of one NestJS module and its providers using the
+ * host project's Nest CLI. Files that already exist are left to the built-in
+ * writers. Returns the files the CLI created.
  */
 export async function orchestrateModuleGeneration(
   options: OrchestratorConfig & ModuleGenerationOptions
-): Promise<void> {
-  const { projectRoot, moduleName, modulePath, generateController = true, generateService = true, generateDTOs = [] } = options;
+): Promise<string[]> {
+  const { projectRoot, sourceDir, project, moduleName, modulePath, schematics } = options;
+  const baseName = path.basename(modulePath);
+  const created: string[] = [];
 
   try {
-    // Step 1: Generate Module
-    await runNestCommand(projectRoot, `g module ${modulePath}`);
-    console.log(chalk.green(`✓ Module generated: ${modulePath}`));
-
-    // Step 2: Generate Controller (optional)
-    if (generateController) {
-      await runNestCommand(projectRoot, `g controller ${modulePath}`);
-      console.log(chalk.green(`✓ Controller generated: ${modulePath}`));
-    }
+    for (const schematic of schematics) {
+      const filePath = path.join(sourceDir, modulePath, `${baseName}.${schematic}.ts`);
+      if (await fs.pathExists(filePath)) {
+        continue;
+      }
 
-    // Step 3: Generate Service (optional)
-    if (generateService) {
-      await runNestCommand(projectRoot, `g service ${modulePath}`);
-      console.log(chalk.green(`✓ Service generated: ${modulePath}`));
-    }
+      const args = ['g', schematic, modulePath, '--no-spec'];
+      if (project) {
+        args.push('--project', project);
+      }
+      await runNest(projectRoot, args);
 
-    // Step 4: Generate DTOs
-    if (generateDTOs.length > 0) {
-      const dtosPath = `${modulePath}/dto`;
-      
-      // Create DTO directory
-      const dtoDirPath = path.join(projectRoot, 'src', dtosPath);
-      await fs.ensureDir(dtoDirPath);
-
-      for (const dtoName of generateDTOs) {
-        const dtoNameWithoutExt = dtoName.replace('.ts', '').replace('.dto', '');
-        await runNestCommand(projectRoot, `g class ${dtosPath}/${dtoNameWithoutExt}.dto --no-spec`);
-        console.log(chalk.green(`✓ DTO generated: ${dtosPath}/${dtoNameWithoutExt}.dto`));
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(
+          `nest g ${schematic} did not create ${path.relative(projectRoot, filePath)}`
+        );
       }
+
+      // The CLI's boilerplate is replaced by the built-in writers without a conflict prompt
+      markScaffolded(filePath);
+      created.push(filePath);
+      console.log(chalk.green(`✓ ${capitalize(schematic)} generated: ${modulePath}`));
     }
 
     console.log(chalk.cyan(`\n📦 ${moduleName} module generation complete\n`));
   } catch (error: any) {
     throw new Error(`Failed to generate ${moduleName} module: ${error.message}`);
   }
+
+  return created;
 }
 
 /**
@@ -82,15 +80,18 @@ export async function orchestrateModuleGeneration(
 export async function orchestrateMultipleModules(
   baseConfig: OrchestratorConfig,
   modules: ModuleGenerationOptions[]
-): Promise<void> {
+): Promise<string[]> {
   console.log(chalk.cyan('\n🔧 Generating NestJS modules using Nest CLI...\n'));
 
+  const created: string[] = [];
   for (const module of modules) {
     try {
-      await orchestrateModuleGeneration({
-        ...baseConfig,
-        ...module,
-      });
+      created.push(
+        ...(await orchestrateModuleGeneration({
+          ...baseConfig,
+          ...module,
+        }))
+      );
     } catch (error: any) {
       console.error(chalk.red(`Error generating ${module.moduleName}:`), error.message);
       throw error;
@@ -98,70 +99,76 @@ export async function orchestrateMultipleModules(
   }
 
   console.log(chalk.green('\n✅ All modules generated successfully!\n'));
+  return created;
 }
 
 /**
- * Run a NestJS CLI command
- * Uses the host project's installed Nest CLI
+ * Run the project-local Nest CLI when installed, otherwise a global one
  */
-function runNestCommand(projectRoot: string, command: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // Determine the correct nest command (nest or npx nest)
-    const isWindows = process.platform === 'win32';
-    const nestCommand = isWindows ? 'nest.cmd' : 'nest';
-
-    const child = spawn(nestCommand, command.split(' '), {
-      cwd: projectRoot,
-      stdio: 'pipe', // Suppress output
-      shell: true, // Use shell on Windows
-    });
-
-    let errorOutput = '';
+async function runNest(projectRoot: string, args: string[]): Promise<string> {
+  return (await hasLocalNestCli(projectRoot))
+    ? runNestCommandVianpmx(projectRoot, args)
+    : runNestCommand(projectRoot, args);
+}
 
-    child.stderr?.on('data', (data) => {
-      errorOutput += data.toString();
-    });
+async function hasLocalNestCli(projectRoot: string): Promise<boolean> {
+  const binary = process.platform === 'win32' ? 'nest.cmd' : 'nest';
+  return fs.pathExists(path.join(projectRoot, 'node_modules', '.bin', binary));
+}
 
-    child.on('error', (error) => {
-      reject(new Error(`Failed to execute nest command: ${error.message}`));
-    });
+/**
+ * Run a NestJS CLI command
+ * Uses a globally installed Nest CLI
+ */
+function runNestCommand(projectRoot: string, args: string[]): Promise<string> {
+  // Determine the correct nest command (nest or nest.cmd)
+  const isWindows = process.platform === 'win32';
+  const nestCommand = isWindows ? 'nest.cmd' : 'nest';
 
-    child.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`Nest CLI exited with code ${code}: ${errorOutput}`));
-      } else {
-        resolve();
-      }
-    });
-  });
+  return spawnNest(nestCommand, args, projectRoot, 'nest');
 }
 
 /**
- * Alternative: Use npx nest for better compatibility
+ * Use npx nest for the Nest CLI installed in the host project.
+ * --no-install keeps npx from downloading the unrelated `nest` package.
  */
-function runNestCommandVianpmx(projectRoot: string, command: string): Promise<void> {
+function runNestCommandVianpmx(projectRoot: string, args: string[]): Promise<string> {
+  return spawnNest('npx', ['--no-install', 'nest', ...args], projectRoot, 'npx nest');
+}
+
+function spawnNest(
+  command: string,
+  args: string[],
+  projectRoot: string,
+  label: string
+): Promise<string> {
   return new Promise((resolve, reject) => {
-    const child = spawn('npx', ['nest', ...command.split(' ')], {
+    const child = spawn(command, args, {
       cwd: projectRoot,
-      stdio: 'pipe',
-      shell: true,
+      stdio: 'pipe', // Suppress output
+      shell: true, // Use shell on Windows
     });
 
+    let output = '';
     let errorOutput = '';
 
+    child.stdout?.on('data', (data) => {
+      output += data.toString();
+    });
+
     child.stderr?.on('data', (data) => {
       errorOutput += data.toString();
     });
 
     child.on('error', (error) => {
-      reject(new Error(`Failed to execute npx nest command: ${error.message}`));
+      reject(new Error(`Failed to execute ${label} command: ${error.message}`));
     });
 
     child.on('close', (code) => {
       if (code !== 0) {
-        reject(new Error(`Nest CLI exited with code ${code}: ${errorOutput}`));
+        reject(new Error(`Nest CLI exited with code ${code}: ${errorOutput || output}`));
       } else {
-        resolve();
+        resolve(output);
       }
     });
   });
@@ -171,41 +178,20 @@ function runNestCommandVianpmx(projectRoot: string, command: string): Promise<vo
  * Check if Nest CLI is available
  */
 export async function checkNestCliAvailability(projectRoot: string): Promise<boolean> {
-  try {
-    await runNestCommand(projectRoot, '--version');
-    return true;
-  } catch {
-    return false;
-  }
+  return (await getNestCliVersion(projectRoot)) !== null;
 }
 
 /**
  * Get installed Nest CLI version
  */
 export async function getNestCliVersion(projectRoot: string): Promise<string | null> {
-  return new Promise((resolve) => {
-    const child = spawn('npx', ['nest', '--version'], {
-      cwd: projectRoot,
-      stdio: 'pipe',
-      shell: true,
-    });
-
-    let output = '';
-
-    child.stdout?.on('data', (data) => {
-      output += data.toString();
-    });
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve(output.trim());
-      } else {
-        resolve(null);
-      }
-    });
+  try {
+    return (await runNest(projectRoot, ['--version'])).trim();
+  } catch {
+    return null;
+  }
+}
 
-    child.on('error', () => {
-      resolve(null);
-    });
-  });
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
 }
@@ -0,0 +1,144 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash, createPublicKey, generateKeyPairSync } from 'crypto';
+
+/**
+ * JwtKeysGenerator
+ *
+ * Creates and rotates the key set used to sign RS256/ES256 access tokens.
+ * The generated JwtKeyStore loads it from JWT_KEYS_FILE (or JWT_KEYS).
+ * Rotation is staged so verifiers that cache the JWKS never see an unknown kid:
+ * `generate` publishes a next key, `promote` signs with it while the old key
+ * keeps verifying, and `retire` drops the old key once its tokens have expired.
+ */
+
+export const JWT_KEY_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type JwtKeyAlgorithm = typeof JWT_KEY_ALGORITHMS[number];
+
+export const DEFAULT_JWT_KEYS_FILE = 'keys/jwt-keys.json';
+
+export interface JwtKeyEntry {
+  /** RFC 7638 thumbprint of the public key */
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  /** active signs tokens; next is published ahead of promotion; retiring only verifies */
+  status: 'active' | 'next' | 'retiring';
+  createdAt: string;
+  privateKey: string;
+  publicKey: string;
+}
+
+export interface JwtKeySet {
+  keys: JwtKeyEntry[];
+}
+
+/**
+ * Create a key pair in PEM form (PKCS#8 private key, SPKI public key)
+ */
+export function createJwtKey(alg: JwtKeyAlgorithm, status: JwtKeyEntry['status']): JwtKeyEntry {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+  return {
+    kid: getKeyThumbprint(publicPem),
+    alg,
+    status,
+    createdAt: new Date().toISOString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicPem,
+  };
+}
+
+/**
+ * RFC 7638 JWK thumbprint: SHA-256 over the required members in lexicographic order
+ */
+export function getKeyThumbprint(publicKeyPem: string): string {
+  const jwk = createPublicKey(publicKeyPem).export({ format: 'jwk' });
+  const members =
+    jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+export async function readJwtKeySet(filePath: string): Promise<JwtKeySet | null> {
+  if (!(await fs.pathExists(filePath))) {
+    return null;
+  }
+
+  const keySet = await fs.readJSON(filePath);
+  if (!keySet || !Array.isArray(keySet.keys)) {
+    throw new Error(`Invalid key set ${filePath}: expected a "keys" array`);
+  }
+  return keySet;
+}
+
+async function writeJwtKeySet(filePath: string, keySet: JwtKeySet): Promise<void> {
+  // Private keys: readable by the owner only
+  await fs.outputFile(filePath, JSON.stringify(keySet, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Add a key to the set at `filePath`. The first key becomes the active key;
+ * later keys are staged as the next key until promoted.
+ */
+export async function generateJwtKey(filePath: string, alg: JwtKeyAlgorithm): Promise<JwtKeyEntry> {
+  const keySet = (await readJwtKeySet(filePath)) ?? { keys: [] };
+
+  const staged = keySet.keys.find((key) => key.status === 'next');
+  if (staged) {
+    throw new Error(
+      `${path.basename(filePath)} already has a next key (${staged.kid}). Run "auth-bp-nest keys promote" first`
+    );
+  }
+
+  const key = createJwtKey(alg, keySet.keys.some((entry) => entry.status === 'active') ? 'next' : 'active');
+  keySet.keys.push(key);
+  await writeJwtKeySet(filePath, keySet);
+  return key;
+}
+
+/**
+ * Start signing with the next key. The previous active key becomes retiring
+ * and keeps verifying tokens it signed.
+ */
+export async function promoteJwtKey(filePath: string): Promise<JwtKeyEntry> {
+  const keySet = await readJwtKeySet(filePath);
+  const next = keySet?.keys.find((key) => key.status === 'next');
+  if (!keySet || !next) {
+    throw new Error(`No next key in ${filePath}. Run "auth-bp-nest keys generate" first`);
+  }
+
+  for (const key of keySet.keys) {
+    if (key.status === 'active') {
+      key.status = 'retiring';
+    }
+  }
+  next.status = 'active';
+
+  await writeJwtKeySet(filePath, keySet);
+  return next;
+}
+
+/**
+ * Remove the retiring keys. Tokens they signed stop verifying, so wait at
+ * least JWT_EXPIRATION after `promote`.
+ */
+export async function retireJwtKeys(filePath: string): Promise<JwtKeyEntry[]> {
+  const keySet = await readJwtKeySet(filePath);
+  if (!keySet) {
+    throw new Error(`No key set found at ${filePath}`);
+  }
+
+  const retired = keySet.keys.filter((key) => key.status === 'retiring');
+  keySet.keys = keySet.keys.filter((key) => key.status !== 'retiring');
+
+  await writeJwtKeySet(filePath, keySet);
+  return retired;
+}
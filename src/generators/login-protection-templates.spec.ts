@@ -0,0 +1,165 @@
+import 'reflect-metadata';
+import { HttpException, Logger } from '@nestjs/common';
+import RedisMock from 'ioredis-mock';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import {
+  generateLoginAttemptStore,
+  generateLoginProtectionService,
+  generateRedisLoginAttemptStore,
+} from './login-protection-templates';
+
+const ENV: Record<string, string> = {
+  LOGIN_MAX_ATTEMPTS: '3',
+  LOGIN_MAX_ATTEMPTS_PER_IP: '5',
+  LOGIN_ATTEMPT_WINDOW: '900',
+  LOGIN_LOCKOUT_DURATION: '600',
+  LOGIN_MAX_DELAY_MS: '0',
+  LOGIN_UNLOCK_URL: 'https://app.example.com/unlock',
+};
+
+/**
+ * The LoginLockout queries LoginProtectionService makes, on an array
+ */
+function createPrisma() {
+  const lockouts: any[] = [];
+  // The only updateMany: an active lockout with the unlock token hash
+  const matches = (lockout: any, where: any) =>
+    lockout.unlockTokenHash === where.unlockTokenHash &&
+    lockout.unlockedAt === null &&
+    lockout.lockedUntil > where.lockedUntil.gt;
+
+  return {
+    lockouts,
+    loginLockout: {
+      create: async ({ data }: any) => {
+        lockouts.push({ id: String(lockouts.length + 1), unlockedAt: null, ...data });
+      },
+      updateMany: async ({ where, data }: any) => {
+        const matched = lockouts.filter((lockout) => matches(lockout, where));
+        matched.forEach((lockout) => Object.assign(lockout, data));
+        return { count: matched.length };
+      },
+      findUniqueOrThrow: async ({ where }: any) =>
+        lockouts.find((lockout) => lockout.unlockTokenHash === where.unlockTokenHash),
+    },
+  };
+}
+
+describe('LoginProtectionService with the Redis store', () => {
+  const config = { rbac: false, multitenant: false };
+  const user = { id: 'user-1', email: 'jane@example.com' };
+
+  let code: GeneratedCode;
+  let redis: InstanceType<typeof RedisMock>;
+  let prisma: ReturnType<typeof createPrisma>;
+  let mailer: { send: jest.Mock };
+  let service: any;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({
+      'auth/login-protection/login-attempt.store.ts': generateLoginAttemptStore(config),
+      'auth/login-protection/stores/redis-login-attempt.store.ts': generateRedisLoginAttemptStore(config),
+      'auth/login-protection/login-protection.service.ts': generateLoginProtectionService(config),
+    });
+    Logger.overrideLogger(false);
+  });
+
+  afterAll(() => code.remove());
+
+  beforeEach(async () => {
+    savedEnv = Object.fromEntries(Object.keys(ENV).map((name) => [name, process.env[name]]));
+    Object.assign(process.env, ENV);
+
+    // ioredis-mock instances share their data, so start from an empty one
+    redis = new RedisMock();
+    await redis.flushall();
+    prisma = createPrisma();
+    mailer = { send: jest.fn().mockResolvedValue(undefined) };
+
+    const { RedisLoginAttemptStore } = code.load('auth/login-protection/stores/redis-login-attempt.store');
+    const { LoginProtectionService } = code.load('auth/login-protection/login-protection.service');
+    service = new LoginProtectionService(prisma, mailer, new RedisLoginAttemptStore(redis));
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  const lockedStatus = (email: string, ipAddress?: string) =>
+    service.assertNotLocked(email, ipAddress).then(
+      () => null,
+      (error: HttpException) => error.getStatus()
+    );
+
+  it('locks the account after LOGIN_MAX_ATTEMPTS failures', async () => {
+    await service.recordFailure(user.email, user, '10.0.0.1');
+    await service.recordFailure(user.email, user, '10.0.0.1');
+    expect(await lockedStatus(user.email)).toBeNull();
+
+    await service.recordFailure(user.email, user, '10.0.0.1');
+
+    expect(await lockedStatus(user.email)).toBe(429);
+    expect(await redis.ttl('count:login:account:jane@example.com')).toBe(-2);
+    expect(await redis.ttl('lock:login:account:jane@example.com')).toBe(600);
+    expect(prisma.lockouts).toEqual([
+      expect.objectContaining({ reason: 'account', email: user.email, userId: user.id, ipAddress: '10.0.0.1' }),
+    ]);
+  });
+
+  it('forgets failures LOGIN_ATTEMPT_WINDOW seconds after the first one', async () => {
+    await service.recordFailure(user.email, user);
+
+    expect(await redis.ttl('count:login:account:jane@example.com')).toBe(900);
+  });
+
+  it('starts the count over after a successful login', async () => {
+    await service.recordFailure(user.email, user);
+    await service.recordFailure(user.email, user);
+    await service.recordSuccess(user.email);
+    await service.recordFailure(user.email, user);
+    await service.recordFailure(user.email, user);
+
+    expect(await lockedStatus(user.email)).toBeNull();
+  });
+
+  it('unlocks the account once with the link from the email', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await service.recordFailure(user.email, user);
+    }
+
+    expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: user.email }));
+    const token = /https:\/\/app\.example\.com\/unlock\?token=(\S+)/.exec(mailer.send.mock.calls[0][0].text)![1];
+
+    await service.unlock({ token });
+
+    expect(await lockedStatus(user.email)).toBeNull();
+    await expect(service.unlock({ token })).rejects.toThrow('Invalid or expired unlock token');
+  });
+
+  it('locks unknown emails without sending mail', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await service.recordFailure('nobody@example.com', null);
+    }
+
+    expect(await lockedStatus('nobody@example.com')).toBe(429);
+    expect(mailer.send).not.toHaveBeenCalled();
+    expect(prisma.lockouts[0].unlockTokenHash).toBeNull();
+  });
+
+  it('blocks an IP address after LOGIN_MAX_ATTEMPTS_PER_IP failures across accounts', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await service.recordFailure(`user${attempt}@example.com`, null, '10.0.0.2');
+    }
+
+    expect(await lockedStatus('someone@example.com', '10.0.0.2')).toBe(429);
+    expect(await lockedStatus('someone@example.com', '10.0.0.3')).toBeNull();
+    expect(prisma.lockouts).toContainEqual(expect.objectContaining({ reason: 'ip', ipAddress: '10.0.0.2' }));
+  });
+});
@@ -0,0 +1,431 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * LoginProtectionTemplates
+ *
+ * Source of the optional brute-force protection on password login:
+ * LoginAttemptStore (failed attempt counters and temporary locks) with an
+ * in-memory and a Redis implementation, LoginProtectionService (per account
+ * and per IP counters, progressive delays, lockouts recorded in the
+ * LoginLockout model, unlock-by-email) and the controller for the unlock
+ * link and the admin lockout list.
+ */
+
+type LoginProtectionTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'multitenant'>;
+
+export function generateLoginAttemptStore(config: LoginProtectionTemplateConfig): string {
+  return `/**
+ * Failed login counters and temporary locks, keyed by account or IP address.
+ * Inject LoginAttemptStore; AuthModule picks the implementation from
+ * LOGIN_ATTEMPT_STORE (memory or redis).
+ */
+export abstract class LoginAttemptStore {
+  /**
+   * Count a failed attempt and return the count. The counter starts over
+   * windowSeconds after the first attempt it counted.
+   */
+  abstract increment(key: string, windowSeconds: number): Promise<number>;
+
+  /** Forget the failed attempts counted for key */
+  abstract reset(key: string): Promise<void>;
+
+  abstract lock(key: string, seconds: number): Promise<void>;
+
+  /** Seconds left on the lock of key, 0 when it is not locked */
+  abstract lockedFor(key: string): Promise<number>;
+
+  abstract unlock(key: string): Promise<void>;
+}
+`;
+}
+
+export function generateMemoryLoginAttemptStore(config: LoginProtectionTemplateConfig): string {
+  return `import { LoginAttemptStore } from '../login-attempt.store';
+
+interface Entry {
+  value: number;
+  expiresAt: number;
+}
+
+/** Expired entries are swept at most once a minute */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in process memory. Each instance counts on its own and the
+ * counts are lost on restart, so use the Redis store with several instances.
+ */
+export class MemoryLoginAttemptStore extends LoginAttemptStore {
+  private readonly entries = new Map<string, Entry>();
+  private lastSweep = Date.now();
+
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    this.sweep();
+
+    const entry = this.get(\`count:\${key}\`);
+    if (entry) {
+      entry.value += 1;
+      return entry.value;
+    }
+
+    this.entries.set(\`count:\${key}\`, { value: 1, expiresAt: Date.now() + windowSeconds * 1000 });
+    return 1;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(\`count:\${key}\`);
+  }
+
+  async lock(key: string, seconds: number): Promise<void> {
+    this.entries.set(\`lock:\${key}\`, { value: 1, expiresAt: Date.now() + seconds * 1000 });
+  }
+
+  async lockedFor(key: string): Promise<number> {
+    const entry = this.get(\`lock:\${key}\`);
+    return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : 0;
+  }
+
+  async unlock(key: string): Promise<void> {
+    this.entries.delete(\`lock:\${key}\`);
+  }
+
+  private get(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+`;
+}
+
+export function generateRedisLoginAttemptStore(config: LoginProtectionTemplateConfig): string {
+  return `import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { LoginAttemptStore } from '../login-attempt.store';
+
+/**
+ * Keeps counters in Redis (or any server speaking its protocol: Valkey,
+ * KeyDB, Dragonfly...) so every instance sees the same counts. Keys expire on
+ * their own. Pass a client to test against a local stand-in, e.g.
+ * \`new RedisLoginAttemptStore(new RedisMock())\` with ioredis-mock.
+ */
+export class RedisLoginAttemptStore extends LoginAttemptStore implements OnModuleDestroy {
+  constructor(
+    private readonly redis: Redis = new Redis(process.env.REDIS_URL ?? 'redis://localhost:6379', {
+      keyPrefix: process.env.REDIS_KEY_PREFIX ?? 'auth:',
+    }),
+  ) {
+    super();
+  }
+
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    // SET NX starts the window on the first attempt; INCR keeps its expiry
+    const results = await this.redis
+      .multi()
+      .set(\`count:\${key}\`, 0, 'EX', windowSeconds, 'NX')
+      .incr(\`count:\${key}\`)
+      .exec();
+
+    const [error, count] = results?.[1] ?? [new Error('Redis transaction was aborted'), null];
+    if (error) {
+      throw error;
+    }
+    return Number(count);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(\`count:\${key}\`);
+  }
+
+  async lock(key: string, seconds: number): Promise<void> {
+    await this.redis.set(\`lock:\${key}\`, 1, 'EX', seconds);
+  }
+
+  async lockedFor(key: string): Promise<number> {
+    // -2 when the key does not exist
+    return Math.max(await this.redis.ttl(\`lock:\${key}\`), 0);
+  }
+
+  async unlock(key: string): Promise<void> {
+    await this.redis.del(\`lock:\${key}\`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+`;
+}
+
+export function generateLoginProtectionService(config: LoginProtectionTemplateConfig): string {
+  return `import { BadRequestException, HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { LoginLockout, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { MailerService } from '../../mail/mailer.service';
+import { UnlockAccountDto } from '../dto/unlock-account.dto';
+import { LoginAttemptStore } from './login-attempt.store';
+
+/**
+ * A lockout as shown to admins; the unlock token hash never leaves the service
+ */
+export type LoginLockoutSummary = Omit<LoginLockout, 'unlockTokenHash'>;
+
+const SUMMARY_FIELDS = {
+  id: true,
+  reason: true,
+  email: true,
+  userId: true,${config.multitenant ? '\n  tenantId: true,' : ''}
+  ipAddress: true,
+  lockedUntil: true,
+  unlockedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Brute-force protection for password login. Failed attempts are counted per
+ * account (email) and per IP address within LOGIN_ATTEMPT_WINDOW seconds:
+ * - every failure is answered more slowly (250ms, doubling, up to LOGIN_MAX_DELAY_MS)
+ * - LOGIN_MAX_ATTEMPTS failures lock the account for LOGIN_LOCKOUT_DURATION
+ *   seconds and email its owner an unlock link
+ * - LOGIN_MAX_ATTEMPTS_PER_IP failures block the IP address for as long
+ *
+ * Unknown emails are counted and locked like accounts, so responses do not
+ * reveal which addresses have an account. Every lockout is recorded in the
+ * LoginLockout model.
+ */
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+  private readonly maxAttempts = Number(process.env.LOGIN_MAX_ATTEMPTS ?? 5);
+  private readonly maxAttemptsPerIp = Number(process.env.LOGIN_MAX_ATTEMPTS_PER_IP ?? 50);
+  private readonly attemptWindow = Number(process.env.LOGIN_ATTEMPT_WINDOW ?? 900);
+  private readonly lockoutDuration = Number(process.env.LOGIN_LOCKOUT_DURATION ?? 900);
+  private readonly maxDelayMs = Number(process.env.LOGIN_MAX_DELAY_MS ?? 8000);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailer: MailerService,
+    private store: LoginAttemptStore,
+  ) {}
+
+  /**
+   * Refuse the attempt with 429 while the account or the IP address is
+   * locked, whether or not the password is right
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const lockedFor = Math.max(
+      await this.store.lockedFor(accountKey(email)),
+      ipAddress ? await this.store.lockedFor(ipKey(ipAddress)) : 0,
+    );
+
+    if (lockedFor > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts. Try again later',
+          retryAfter: lockedFor,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt, lock the account or IP address once it reaches
+   * its limit, and delay the response
+   */
+  async recordFailure(email: string, user: User | null, ipAddress?: string): Promise<void> {
+    const failures = await this.store.increment(accountKey(email), this.attemptWindow);
+    if (failures >= this.maxAttempts) {
+      await this.lockAccount(email, user, ipAddress);
+    }
+
+    if (ipAddress) {
+      const ipFailures = await this.store.increment(ipKey(ipAddress), this.attemptWindow);
+      if (ipFailures >= this.maxAttemptsPerIp) {
+        await this.lockIpAddress(ipAddress);
+      }
+    }
+
+    await delay(Math.min(this.maxDelayMs, 250 * 2 ** (failures - 1)));
+  }
+
+  /**
+   * Clear the account's failed attempts. The IP counter is kept, so one valid
+   * account cannot be used to reset it.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(accountKey(email));
+  }
+
+  /**
+   * Lift an account lockout with the token from the unlock email
+   */
+  async unlock(dto: UnlockAccountDto): Promise<void> {
+    const unlockTokenHash = hashToken(dto.token);
+
+    // Marking the lockout unlocked is the check, so a token works once
+    const { count } = await this.prisma.loginLockout.updateMany({
+      where: { unlockTokenHash, unlockedAt: null, lockedUntil: { gt: new Date() } },
+      data: { unlockedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired unlock token');
+    }
+
+    const { email } = await this.prisma.loginLockout.findUniqueOrThrow({ where: { unlockTokenHash } });
+    if (email) {
+      await this.store.unlock(accountKey(email));
+      await this.store.reset(accountKey(email));
+    }
+  }
+${
+  config.rbac
+    ? `
+  /**
+   * The most recent lockouts${config.multitenant ? ": a tenant admin sees the tenant's accounts and all IP blocks" : ''}
+   */
+  listLockouts(${config.multitenant ? 'tenantId?: string' : ''}): Promise<LoginLockoutSummary[]> {
+    return this.prisma.loginLockout.findMany({${
+      config.multitenant
+        ? `
+      where: tenantId ? { OR: [{ tenantId }, { reason: 'ip' }] } : {},`
+        : ''
+    }
+      select: SUMMARY_FIELDS,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+`
+    : ''
+}
+  private async lockAccount(email: string, user: User | null, ipAddress?: string): Promise<void> {
+    await this.store.lock(accountKey(email), this.lockoutDuration);
+    await this.store.reset(accountKey(email));
+
+    const lockedUntil = new Date(Date.now() + this.lockoutDuration * 1000);
+    const token = user ? randomBytes(32).toString('base64url') : null;
+    await this.prisma.loginLockout.create({
+      data: {
+        reason: 'account',
+        email,
+        userId: user?.id,${config.multitenant ? '\n        tenantId: user?.tenantId,' : ''}
+        ipAddress,
+        lockedUntil,
+        unlockTokenHash: token ? hashToken(token) : null,
+      },
+    });
+    this.logger.warn(\`Locked \${email} until \${lockedUntil.toISOString()} after \${this.maxAttempts} failed logins\`);
+
+    if (!user || !token) {
+      return;
+    }
+
+    const unlockUrl = new URL(process.env.LOGIN_UNLOCK_URL ?? 'http://localhost:3000/unlock-account');
+    unlockUrl.searchParams.set('token', token);
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Your account has been locked',
+      text: [
+        \`Signing in to your account failed \${this.maxAttempts} times, so it is locked for \${Math.round(this.lockoutDuration / 60)} minutes.\`,
+        \`If that was you, open this link to unlock it now: \${unlockUrl}\`,
+        'If it was not you, someone may be guessing your password: consider changing it.',
+      ].join('\\n\\n'),
+    });
+  }
+
+  private async lockIpAddress(ipAddress: string): Promise<void> {
+    await this.store.lock(ipKey(ipAddress), this.lockoutDuration);
+    await this.store.reset(ipKey(ipAddress));
+
+    const lockedUntil = new Date(Date.now() + this.lockoutDuration * 1000);
+    await this.prisma.loginLockout.create({
+      data: { reason: 'ip', ipAddress, lockedUntil },
+    });
+    this.logger.warn(\`Blocked logins from \${ipAddress} until \${lockedUntil.toISOString()}\`);
+  }
+}
+
+function accountKey(email: string): string {
+  return \`login:account:\${email}\`;
+}
+
+function ipKey(ipAddress: string): string {
+  return \`login:ip:\${ipAddress}\`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+`;
+}
+
+export function generateLoginProtectionController(config: LoginProtectionTemplateConfig): string {
+  return `import { Body, Controller, ${config.rbac ? 'Get, ' : ''}HttpCode, HttpStatus, Post } from '@nestjs/common';${
+    config.rbac
+      ? `
+import { Roles } from '../../rbac/roles.decorator';${
+          config.multitenant
+            ? `
+import { CurrentUser } from '../current-user.decorator';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';`
+            : ''
+        }`
+      : ''
+  }
+import { UnlockAccountDto } from '../dto/unlock-account.dto';
+import { Public } from '../public.decorator';
+import { LoginProtectionService } from './login-protection.service';
+
+@Controller('auth')
+export class LoginProtectionController {
+  constructor(private loginProtection: LoginProtectionService) {}
+
+  @Public()
+  @Post('unlock')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unlock(@Body() dto: UnlockAccountDto) {
+    return this.loginProtection.unlock(dto);
+  }${
+    config.rbac
+      ? `
+
+  @Get('lockouts')
+  @Roles('admin')
+  ${
+    config.multitenant
+      ? `lockouts(@CurrentUser() user: AuthenticatedUser) {
+    return this.loginProtection.listLockouts(user.tenantId);
+  }`
+      : `lockouts() {
+    return this.loginProtection.listLockouts();
+  }`
+  }`
+      : ''
+  }
+}
+`;
+}
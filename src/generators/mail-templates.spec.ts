@@ -0,0 +1,121 @@
+import 'reflect-metadata';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import {
+  generateConsoleMailerService,
+  generateMailModuleFile,
+  generateMailerService,
+  generateSmtpMailerService,
+} from './mail-templates';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  user?: string;
+  raw: string;
+}
+
+const ENV = ['MAIL_TRANSPORT', 'MAIL_FROM', 'SMTP_HOST', 'SMTP_PORT', 'SMTP_USER', 'SMTP_PASSWORD'];
+
+describe('SmtpMailerService', () => {
+  let code: GeneratedCode;
+  let server: SMTPServer;
+  let received: ReceivedMail[];
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeAll(async () => {
+    const config = { whitelabel: false };
+    code = await writeGeneratedCode({
+      'mail/mail.module.ts': generateMailModuleFile(config),
+      'mail/mailer.service.ts': generateMailerService(config),
+      'mail/transports/console-mailer.service.ts': generateConsoleMailerService(config),
+      'mail/transports/smtp-mailer.service.ts': generateSmtpMailerService(config),
+    });
+  });
+
+  afterAll(() => code.remove());
+
+  // A local mail catcher: accepts every message and keeps it
+  beforeEach(async () => {
+    received = [];
+    server = new SMTPServer({
+      disabledCommands: ['STARTTLS'],
+      authOptional: true,
+      allowInsecureAuth: true,
+      logger: false,
+      onAuth: (auth, session, callback) =>
+        auth.password === 'secret' ? callback(null, { user: auth.username }) : callback(new Error('Invalid login')),
+      onData: (stream, session, callback) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          received.push({
+            from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+            to: session.envelope.rcptTo.map((recipient) => recipient.address),
+            user: session.user,
+            raw: Buffer.concat(chunks).toString('utf8'),
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    savedEnv = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String((server.server.address() as AddressInfo).port);
+    process.env.MAIL_FROM = 'auth@example.com';
+  });
+
+  afterEach(async () => {
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('delivers the message to the SMTP server', async () => {
+    const { SmtpMailerService } = code.load('mail/transports/smtp-mailer.service');
+
+    await new SmtpMailerService().send({
+      to: 'user@example.com',
+      subject: 'Reset your password',
+      text: 'Open this link to reset your password',
+      html: '<p>Open this link to reset your password</p>',
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].from).toBe('auth@example.com');
+    expect(received[0].to).toEqual(['user@example.com']);
+    expect(received[0].raw).toContain('Subject: Reset your password');
+    expect(received[0].raw).toContain('Open this link to reset your password');
+    expect(received[0].raw).toContain('text/html');
+  });
+
+  it('signs in with SMTP_USER and SMTP_PASSWORD', async () => {
+    process.env.SMTP_USER = 'mailer';
+    process.env.SMTP_PASSWORD = 'secret';
+    const { SmtpMailerService } = code.load('mail/transports/smtp-mailer.service');
+
+    await new SmtpMailerService().send({ to: 'user@example.com', subject: 'Hi', text: 'Hi' });
+
+    expect(received[0].user).toBe('mailer');
+  });
+
+  it('is the transport MailModule provides when MAIL_TRANSPORT is smtp', () => {
+    const { MailModule } = code.load('mail/mail.module');
+    const { SmtpMailerService } = code.load('mail/transports/smtp-mailer.service');
+    const { ConsoleMailerService } = code.load('mail/transports/console-mailer.service');
+    const [provider] = Reflect.getMetadata('providers', MailModule);
+
+    process.env.MAIL_TRANSPORT = 'smtp';
+    expect(provider.useFactory()).toBeInstanceOf(SmtpMailerService);
+    delete process.env.MAIL_TRANSPORT;
+    expect(provider.useFactory()).toBeInstanceOf(ConsoleMailerService);
+  });
+});
@@ -0,0 +1,133 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * MailTemplates
+ *
+ * Source of the generated mail module. MailerService is an abstract class used
+ * as the injection token; MailModule picks the transport from MAIL_TRANSPORT:
+ * the console transport (logs messages and optionally writes them to
+ * MAIL_OUTBOX_DIR) for local development, or SMTP through nodemailer.
+ */
+
+type MailTemplateConfig = Pick<AuthBPConfig, 'whitelabel'>;
+
+export function generateMailModuleFile(config: MailTemplateConfig): string {
+  return `import { Global, Module } from '@nestjs/common';
+import { MailerService } from './mailer.service';
+import { ConsoleMailerService } from './transports/console-mailer.service';
+import { SmtpMailerService } from './transports/smtp-mailer.service';
+
+/**
+ * Provides MailerService. MAIL_TRANSPORT selects the implementation:
+ * - console (default): log messages, and write them to MAIL_OUTBOX_DIR when set
+ * - smtp: send through SMTP_HOST/SMTP_PORT (use a local catcher such as Mailpit in development)
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MailerService,
+      useFactory: (): MailerService =>
+        process.env.MAIL_TRANSPORT === 'smtp' ? new SmtpMailerService() : new ConsoleMailerService(),
+    },
+  ],
+  exports: [MailerService],
+})
+export class MailModule {}
+`;
+}
+
+export function generateMailerService(config: MailTemplateConfig): string {
+  return `export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Sends transactional email (password reset links, verification links...).
+ * Inject MailerService; MailModule decides which transport implements it.
+ */
+export abstract class MailerService {
+  abstract send(message: MailMessage): Promise<void>;
+
+  protected get from(): string {
+    return process.env.MAIL_FROM ?? 'no-reply@localhost';
+  }
+}
+`;
+}
+
+export function generateConsoleMailerService(config: MailTemplateConfig): string {
+  return `import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailerService } from '../mailer.service';
+
+/**
+ * Development transport: logs every message and, when MAIL_OUTBOX_DIR is set,
+ * writes it to that directory as an .eml file that mail clients can open.
+ */
+export class ConsoleMailerService extends MailerService {
+  private readonly logger = new Logger(ConsoleMailerService.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(\`Mail to \${message.to}: \${message.subject}\\n\${message.text}\`);
+
+    const outboxDir = process.env.MAIL_OUTBOX_DIR;
+    if (!outboxDir) {
+      return;
+    }
+
+    await fs.mkdir(outboxDir, { recursive: true });
+    const fileName = \`\${new Date().toISOString().replace(/[:.]/g, '-')}-\${message.to}.eml\`;
+    await fs.writeFile(path.join(outboxDir, fileName), this.toEml(message));
+  }
+
+  private toEml(message: MailMessage): string {
+    return [
+      \`From: \${this.from}\`,
+      \`To: \${message.to}\`,
+      \`Subject: \${message.subject}\`,
+      \`Date: \${new Date().toUTCString()}\`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\\r\\n');
+  }
+}
+`;
+}
+
+export function generateSmtpMailerService(config: MailTemplateConfig): string {
+  return `import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailerService } from '../mailer.service';
+
+/**
+ * SMTP transport. Point SMTP_HOST/SMTP_PORT at a local catcher
+ * (Mailpit, MailHog: localhost:1025) to test emails in development.
+ */
+export class SmtpMailerService extends MailerService {
+  private readonly transporter: Transporter = createTransport({
+    host: process.env.SMTP_HOST ?? 'localhost',
+    port: Number(process.env.SMTP_PORT ?? 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+`;
+}
@@ -0,0 +1,206 @@
+import 'reflect-metadata';
+import { JwtService } from '@nestjs/jwt';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import { generateLoginAttemptStore, generateMemoryLoginAttemptStore } from './login-protection-templates';
+import { generateMfaService, generateTotp } from './mfa-templates';
+
+const ENV: Record<string, string> = {
+  MFA_CHALLENGE_SECRET: 'challenge-secret',
+  MFA_ENCRYPTION_KEY: 'encryption-key',
+  MFA_CHALLENGE_EXPIRATION: '300',
+  MFA_MAX_ATTEMPTS: '3',
+};
+
+/** "12345678901234567890", the RFC 6238 SHA-1 test secret */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+/**
+ * The User queries MfaService makes, on a single user
+ */
+function createPrisma(user: any) {
+  const find = async ({ where }: any) => (where.id === user.id ? { ...user } : null);
+
+  return {
+    user: {
+      findUnique: find,
+      findUniqueOrThrow: find,
+      update: async ({ data }: any) => Object.assign(user, data),
+      updateMany: async ({ where, data }: any) => {
+        const matches = where.OR
+          ? user.mfaLastUsedStep === null || user.mfaLastUsedStep < where.OR[1].mfaLastUsedStep.lt
+          : user.mfaRecoveryCodes.includes(where.mfaRecoveryCodes.has);
+        if (matches) {
+          Object.assign(user, data, data.mfaRecoveryCodes ? { mfaRecoveryCodes: data.mfaRecoveryCodes.set } : {});
+        }
+        return { count: matches ? 1 : 0 };
+      },
+    },
+  };
+}
+
+describe('MFA templates', () => {
+  const config = { rbac: false, multitenant: false, tokenTransport: 'bearer' as const };
+
+  let code: GeneratedCode;
+  let totp: any;
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({
+      'auth/mfa/totp.ts': generateTotp(config),
+      'auth/mfa/mfa.service.ts': generateMfaService(config),
+      'auth/login-protection/login-attempt.store.ts': generateLoginAttemptStore(config),
+      'auth/login-protection/stores/memory-login-attempt.store.ts': generateMemoryLoginAttemptStore(config),
+    });
+    totp = code.load('auth/mfa/totp');
+  });
+
+  afterAll(() => code.remove());
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('matches the RFC 6238 test vector at %i', (seconds, expected) => {
+      expect(totp.generateTotp(RFC_SECRET, totp.getTotpStep(new Date(seconds * 1000)))).toBe(expected);
+    });
+  });
+
+  describe('MfaService with a fixed clock', () => {
+    let now: Date;
+    let user: any;
+    let service: any;
+    let savedEnv: Record<string, string | undefined>;
+
+    const codeAt = (secret: string, time: Date) => totp.generateTotp(secret, totp.getTotpStep(time));
+    const later = (seconds: number) => {
+      now = new Date(now.getTime() + seconds * 1000);
+    };
+
+    /**
+     * Enroll and confirm MFA; returns the secret and the recovery codes
+     */
+    async function enable(): Promise<{ secret: string; recoveryCodes: string[] }> {
+      const { secret } = await service.enroll(user.id);
+      const { recoveryCodes } = await service.confirm(user.id, { code: codeAt(secret, now) });
+      return { secret, recoveryCodes };
+    }
+
+    async function verify(mfaCode: string, challengeToken?: string): Promise<unknown> {
+      const token = challengeToken ?? (await service.createChallenge(user)).challengeToken;
+      return service.verifyChallenge({ challengeToken: token, code: mfaCode });
+    }
+
+    beforeEach(() => {
+      savedEnv = Object.fromEntries(Object.keys(ENV).map((name) => [name, process.env[name]]));
+      Object.assign(process.env, ENV);
+
+      now = new Date('2024-01-01T00:00:00Z');
+      user = {
+        id: 'user-1',
+        email: 'jane@example.com',
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
+        mfaRecoveryCodes: [],
+      };
+
+      const { MfaService } = code.load('auth/mfa/mfa.service');
+      const { MemoryLoginAttemptStore } = code.load('auth/login-protection/stores/memory-login-attempt.store');
+      service = new MfaService(createPrisma(user), new JwtService({}), { now: () => now }, new MemoryLoginAttemptStore());
+    });
+
+    afterEach(() => {
+      for (const [name, value] of Object.entries(savedEnv)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    });
+
+    it('enrolls with an encrypted secret and an otpauth URL', async () => {
+      const { secret, otpauthUrl } = await service.enroll(user.id);
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(user.mfaSecret).not.toContain(secret);
+      expect(otpauthUrl).toBe(
+        `otpauth://totp/auth-bp-nest%3Ajane%40example.com?secret=${secret}&issuer=auth-bp-nest&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+
+    it('enables MFA with the current code and returns ten recovery codes', async () => {
+      const { recoveryCodes } = await enable();
+
+      expect(user.mfaEnabledAt).toEqual(now);
+      expect(recoveryCodes).toHaveLength(10);
+      expect(user.mfaRecoveryCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('completes the second login step with the next code', async () => {
+      const { secret } = await enable();
+      later(30);
+
+      expect(await verify(codeAt(secret, now))).toMatchObject({ id: user.id });
+    });
+
+    it('accepts a code one step off the clock', async () => {
+      const { secret } = await enable();
+      later(60);
+
+      expect(await verify(codeAt(secret, new Date(now.getTime() - 30 * 1000)))).toMatchObject({ id: user.id });
+    });
+
+    it('accepts each code once', async () => {
+      const { secret } = await enable();
+
+      // The code that confirmed enrollment is already used
+      await expect(verify(codeAt(secret, now))).rejects.toThrow('Invalid MFA code');
+    });
+
+    it('rejects a code outside the drift window', async () => {
+      const { secret } = await enable();
+      later(120);
+
+      await expect(verify(codeAt(secret, new Date(now.getTime() - 60 * 1000)))).rejects.toThrow('Invalid MFA code');
+    });
+
+    it('uses up the challenge on the first attempt', async () => {
+      const { secret } = await enable();
+      later(30);
+      const { challengeToken } = await service.createChallenge(user);
+      await expect(verify('000000', challengeToken)).rejects.toThrow('Invalid MFA code');
+
+      await expect(verify(codeAt(secret, now), challengeToken)).rejects.toThrow('Invalid or expired MFA challenge');
+    });
+
+    it('expires the challenge after MFA_CHALLENGE_EXPIRATION seconds', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await service.createChallenge(user);
+      later(301);
+
+      await expect(verify(codeAt(secret, now), challengeToken)).rejects.toThrow('Invalid or expired MFA challenge');
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { recoveryCodes } = await enable();
+
+      expect(await verify(recoveryCodes[0].toUpperCase())).toMatchObject({ id: user.id });
+      await expect(verify(recoveryCodes[0])).rejects.toThrow('Invalid MFA code');
+      expect(user.mfaRecoveryCodes).toHaveLength(9);
+    });
+
+    it('locks the second step after MFA_MAX_ATTEMPTS wrong codes', async () => {
+      const { secret } = await enable();
+      later(30);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await expect(verify('000000')).rejects.toThrow('Invalid MFA code');
+      }
+
+      await expect(verify(codeAt(secret, now))).rejects.toMatchObject({ status: 429 });
+    });
+  });
+});
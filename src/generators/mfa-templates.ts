@@ -0,0 +1,471 @@
+import { AuthBPConfig, hasCookieTransport } from '../prompts';
+
+/**
+ * MfaTemplates
+ *
+ * Source of the optional TOTP multi-factor authentication under auth/mfa:
+ * an RFC 6238 implementation without dependencies, MfaService (enrollment,
+ * recovery codes, single-use login challenges, failed code limits on the
+ * LoginAttemptStore) and MfaController. Time comes from the injectable Clock
+ * in auth/clock.ts, so codes can be tested with a fixed clock.
+ */
+
+type MfaTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'multitenant' | 'tokenTransport'>;
+
+export function generateClock(config: MfaTemplateConfig): string {
+  return `import { Injectable } from '@nestjs/common';
+
+/**
+ * Source of the current time. Override the provider in tests to freeze time:
+ * \`.overrideProvider(Clock).useValue({ now: () => new Date('2024-01-01T00:00:00Z') })\`
+ */
+export abstract class Clock {
+  abstract now(): Date;
+}
+
+@Injectable()
+export class SystemClock extends Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+`;
+}
+
+export function generateTotp(config: MfaTemplateConfig): string {
+  return `import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * TOTP (RFC 6238) with the parameters authenticator apps expect:
+ * HMAC-SHA1, 6 digits, 30 second steps, base32 secrets.
+ */
+
+export const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTotpStep(time: Date): number {
+  return Math.floor(time.getTime() / 1000 / TOTP_PERIOD);
+}
+
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Return the time step the code belongs to, or null if it does not match.
+ * \`window\` steps of clock drift are accepted on either side.
+ */
+export function verifyTotp(secret: string, code: string, time: Date, window = 1): number | null {
+  const current = getTotpStep(time);
+  for (let step = Math.max(0, current - window); step <= current + window; step++) {
+    const expected = Buffer.from(generateTotp(secret, step));
+    const actual = Buffer.from(code);
+    if (actual.length === expected.length && timingSafeEqual(actual, expected)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URL for QR codes scanned by authenticator apps
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(\`\${issuer}:\${accountName}\`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return \`otpauth://totp/\${label}?\${params}\`;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let output = '';
+  let bits = 0;
+  let value = 0;
+
+  for (const byte of buffer) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(\`Invalid base32 character "\${char}"\`);
+    }
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+`;
+}
+
+export function generateMfaService(config: MfaTemplateConfig): string {
+  return `import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { Clock } from '../clock';
+import { MfaCodeDto } from '../dto/mfa-code.dto';
+import { MfaVerifyDto } from '../dto/mfa-verify.dto';
+import { LoginAttemptStore } from '../login-protection/login-attempt.store';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaEnrollment {
+  /** Base32 secret, for manual entry in an authenticator app */
+  secret: string;
+  /** Render as a QR code */
+  otpauthUrl: string;
+}
+
+/**
+ * Returned by /auth/login instead of tokens when the user has MFA enabled
+ */
+export interface MfaChallenge {
+  status: 'mfa_required';
+  challengeToken: string;
+  /** Challenge lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * TOTP enrollment and verification. The TOTP secret is stored encrypted
+ * (AES-256-GCM with MFA_ENCRYPTION_KEY); recovery codes are stored as SHA-256
+ * hashes and work once. Challenge tokens are JWTs signed with
+ * MFA_CHALLENGE_SECRET, so they are never accepted as access tokens, and each
+ * one can be submitted once. MFA_MAX_ATTEMPTS wrong codes for a user within
+ * MFA_LOCKOUT_DURATION seconds lock their second step for as long.
+ */
+@Injectable()
+export class MfaService {
+  private readonly issuer = process.env.MFA_ISSUER ?? 'auth-bp-nest';
+  private readonly challengeTtl = Number(process.env.MFA_CHALLENGE_EXPIRATION ?? 300);
+  private readonly challengeSecret = requireEnv('MFA_CHALLENGE_SECRET');
+  private readonly encryptionKey = createHash('sha256')
+    .update(requireEnv('MFA_ENCRYPTION_KEY'))
+    .digest();
+  private readonly maxAttempts = Number(process.env.MFA_MAX_ATTEMPTS ?? 5);
+  private readonly lockoutDuration = Number(process.env.MFA_LOCKOUT_DURATION ?? 900);
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private clock: Clock,
+    private attempts: LoginAttemptStore,
+  ) {}
+
+  /**
+   * Start enrollment: store a new (not yet active) secret for the user
+   */
+  async enroll(userId: string): Promise<MfaEnrollment> {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { mfaSecret: this.encrypt(secret), mfaLastUsedStep: null },
+    });
+
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email, this.issuer) };
+  }
+
+  /**
+   * Activate MFA with a code from the enrolled app. Returns the recovery
+   * codes; they are shown only this once.
+   */
+  async confirm(userId: string, dto: MfaCodeDto): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new BadRequestException('Start MFA enrollment first');
+    }
+    if (!(await this.consumeTotp(user, dto.code))) {
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabledAt: this.clock.now(),
+        mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn MFA off; requires a current TOTP code or a recovery code
+   */
+  async disable(userId: string, dto: MfaCodeDto): Promise<void> {
+    const user = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    if (!user.mfaEnabledAt) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+    if (!(await this.consumeCodeWithLimit(user, dto.code))) {
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null, mfaRecoveryCodes: [] },
+    });
+  }
+
+  async createChallenge(user: User): Promise<MfaChallenge> {
+    const challengeToken = await this.jwtService.signAsync(
+      // iat comes from the clock so expiry follows it too
+      { sub: user.id, iat: this.epochSeconds() },
+      { secret: this.challengeSecret, expiresIn: this.challengeTtl, jwtid: randomUUID() },
+    );
+
+    return { status: 'mfa_required', challengeToken, expiresIn: this.challengeTtl };
+  }
+
+  /**
+   * Second login step: check the challenge token and the TOTP or recovery
+   * code. The challenge is used up by the first attempt, right or wrong, so
+   * a wrong code means signing in again.
+   */
+  async verifyChallenge(dto: MfaVerifyDto): Promise<User> {
+    let payload: { sub: string; jti?: string };
+    try {
+      payload = await this.jwtService.verifyAsync(dto.challengeToken, {
+        secret: this.challengeSecret,
+        clockTimestamp: this.epochSeconds(),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    // Counting the uses of the jti is the check, so concurrent attempts cannot share a challenge
+    const uses = payload.jti ? await this.attempts.increment(challengeKey(payload.jti), this.challengeTtl) : 0;
+    if (uses !== 1) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: payload.sub } });
+    if (!user?.mfaEnabledAt || !(await this.consumeCodeWithLimit(user, dto.code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    return user;
+  }
+
+  /**
+   * Check a code unless the user's second step is locked (429), counting
+   * wrong codes and locking after MFA_MAX_ATTEMPTS of them
+   */
+  private async consumeCodeWithLimit(user: User, code: string): Promise<boolean> {
+    const lockedFor = await this.attempts.lockedFor(userKey(user.id));
+    if (lockedFor > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many invalid MFA codes. Try again later',
+          retryAfter: lockedFor,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (await this.consumeCode(user, code)) {
+      await this.attempts.reset(userKey(user.id));
+      return true;
+    }
+
+    const failures = await this.attempts.increment(userKey(user.id), this.lockoutDuration);
+    if (failures >= this.maxAttempts) {
+      await this.attempts.lock(userKey(user.id), this.lockoutDuration);
+      await this.attempts.reset(userKey(user.id));
+    }
+    return false;
+  }
+
+  private consumeCode(user: User, code: string): Promise<boolean> {
+    return /^\\d{6}$/.test(code) ? this.consumeTotp(user, code) : this.consumeRecoveryCode(user, code);
+  }
+
+  /**
+   * A TOTP code is accepted once: the step it belongs to is recorded and
+   * codes from that step or earlier ones are rejected afterwards
+   */
+  private async consumeTotp(user: User, code: string): Promise<boolean> {
+    const step = user.mfaSecret ? verifyTotp(this.decrypt(user.mfaSecret), code, this.clock.now()) : null;
+    if (step === null) {
+      return false;
+    }
+
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+    return count > 0;
+  }
+
+  private async consumeRecoveryCode(user: User, code: string): Promise<boolean> {
+    const hash = hashRecoveryCode(code);
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, mfaRecoveryCodes: { has: hash } },
+      data: { mfaRecoveryCodes: { set: user.mfaRecoveryCodes.filter((stored) => stored !== hash) } },
+    });
+    return count > 0;
+  }
+
+  private epochSeconds(): number {
+    return Math.floor(this.clock.now().getTime() / 1000);
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+  }
+
+  private decrypt(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
+
+function challengeKey(jti: string): string {
+  return \`mfa:challenge:\${jti}\`;
+}
+
+function userKey(userId: string): string {
+  return \`mfa:user:\${userId}\`;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(\`\${name} must be set to use MFA\`);
+  }
+  return value;
+}
+
+function generateRecoveryCode(): string {
+  const code = randomBytes(5).toString('hex');
+  return \`\${code.slice(0, 5)}-\${code.slice(5)}\`;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/-/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+`;
+}
+
+export function generateMfaController(config: MfaTemplateConfig): string {
+  const cookies = hasCookieTransport(config);
+
+  return `import { Body, Controller, HttpCode, HttpStatus, Post, Req${cookies ? ', Res' : ''} } from '@nestjs/common';
+import { Request${cookies ? ', Response' : ''} } from 'express';${cookies ? "\nimport { setAuthCookies } from '../auth-cookies';" : ''}
+import { AuthService } from '../auth.service';
+import { CurrentUser } from '../current-user.decorator';
+import { Public } from '../public.decorator';
+import { getSessionMetadata } from '../session.service';
+import { AuthenticatedUser } from '../strategies/jwt.strategy';
+import { MfaCodeDto } from '../dto/mfa-code.dto';
+import { MfaVerifyDto } from '../dto/mfa-verify.dto';
+import { MfaService } from './mfa.service';
+
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private mfaService: MfaService,
+    private authService: AuthService,
+  ) {}
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  enroll(@CurrentUser() user: AuthenticatedUser) {
+    return this.mfaService.enroll(user.userId);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  confirm(@CurrentUser() user: AuthenticatedUser, @Body() dto: MfaCodeDto) {
+    return this.mfaService.confirm(user.userId, dto);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  disable(@CurrentUser() user: AuthenticatedUser, @Body() dto: MfaCodeDto) {
+    return this.mfaService.disable(user.userId, dto);
+  }
+
+  // Second login step: exchange the challenge from /auth/login for tokens
+  @Public()
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  ${
+    cookies
+      ? `async verify(@Body() dto: MfaVerifyDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    return setAuthCookies(response, await this.authService.completeMfaLogin(dto, getSessionMetadata(request)));
+  }`
+      : `verify(@Body() dto: MfaVerifyDto, @Req() request: Request) {
+    return this.authService.completeMfaLogin(dto, getSessionMetadata(request));
+  }`
+  }
+}
+`;
+}
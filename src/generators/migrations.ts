@@ -0,0 +1,155 @@
+import * as path from 'path';
+import {
+  generateAuthModule,
+  generateContextFiles,
+  generateDatabaseModule,
+  generateDTOsWithValidation,
+  generateEnvTemplate,
+  generateMailModule,
+  generateModelEntity,
+  generateTenantModule,
+  ProjectGeneratorOptions,
+} from './project.generator';
+import {
+  legacyEnvTemplate,
+  legacyJwtStrategy,
+  legacyPermissionEntity,
+  legacyPlaceholder,
+  legacyPrismaSchema,
+  legacyRoleEntity,
+  legacyTenantDecorator,
+  legacyTenantEntity,
+  legacyTenantMiddleware,
+  legacyUserEntity,
+} from './legacy-templates';
+import { readNestMajor } from './dependencies.generator';
+import { markLegacy, readCurrentFile, removeFile, writeFile } from '../utils/file-generator';
+import { hasSupabaseAuth } from '../prompts';
+
+/**
+ * Migrations
+ *
+ * Versioned steps that bring a scaffold generated by an older version of
+ * auth-bp-nest up to date. Each step only touches the files its version
+ * changed and spells out the structural changes (removed files, host edits
+ * left to the user). Writes go through the conflict-aware writer, so
+ * untouched files are replaced and edited files are three-way merged; files
+ * from before the manifest are recognised by their legacy content. Every step
+ * can be applied again without changing the result.
+ */
+
+export interface MigrationContext {
+  projectRoot: string;
+  /** Absolute path of the Nest source root */
+  sourceDir: string;
+  config: ProjectGeneratorOptions['config'];
+  templatesDir: string;
+  /** Record a follow-up the user has to do by hand */
+  addManualStep(step: string): void;
+}
+
+export interface Migration {
+  /** Generator version that introduced the change */
+  version: string;
+  description: string;
+  apply(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * Placeholder files 1.0.x wrote to the auth module
+ */
+const LEGACY_AUTH_PLACEHOLDERS = [
+  'jwt.service.ts',
+  'auth.guard.ts',
+  'auth.controller.ts',
+  'auth.module.ts',
+  'auth.service.ts',
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: '1.1.0',
+    description: 'Replace the TypeORM entity classes with the Prisma model types',
+    async apply({ projectRoot, sourceDir, config, addManualStep }) {
+      const entities: Array<[string, string, string]> = [
+        ['database/entities/user.entity.ts', 'User', legacyUserEntity(config)],
+      ];
+      if (config.rbac) {
+        entities.push(
+          ['rbac/entities/role.entity.ts', 'Role', legacyRoleEntity(config)],
+          ['rbac/entities/permission.entity.ts', 'Permission', legacyPermissionEntity(config)]
+        );
+      }
+      if (config.multitenant) {
+        entities.push(['tenant/entities/tenant.entity.ts', 'Tenant', legacyTenantEntity(config)]);
+      }
+
+      for (const [file, model, legacy] of entities) {
+        const filePath = path.join(sourceDir, file);
+        markLegacy(filePath, legacy);
+        await writeFile(filePath, generateModelEntity(model));
+      }
+
+      const packageJson = await readCurrentFile(path.join(projectRoot, 'package.json'));
+      if (packageJson !== null && /"typeorm"\s*:/.test(packageJson)) {
+        addManualStep('Remove typeorm from package.json unless your own code uses it');
+      }
+    },
+  },
+  {
+    version: '1.1.0',
+    description: 'Check the X-Tenant-ID header in TenantGuard instead of TenantMiddleware',
+    async apply({ projectRoot, sourceDir, config, templatesDir, addManualStep }) {
+      if (!config.multitenant) {
+        return;
+      }
+
+      const tenantDir = path.join(sourceDir, 'tenant');
+      markLegacy(path.join(tenantDir, 'tenant.decorator.ts'), legacyTenantDecorator(config));
+      markLegacy(path.join(tenantDir, 'entities', 'tenant.entity.ts'), legacyTenantEntity(config));
+      await generateTenantModule(sourceDir, config, templatesDir);
+
+      // The middleware goes once nothing imports it any more
+      const middlewarePath = path.join(tenantDir, 'tenant.middleware.ts');
+      const relativePath = path.relative(projectRoot, middlewarePath);
+      markLegacy(middlewarePath, legacyTenantMiddleware(config));
+      const appModule = await readCurrentFile(path.join(sourceDir, 'app.module.ts'));
+      if (appModule?.includes('TenantMiddleware')) {
+        addManualStep(
+          `Remove TenantMiddleware from app.module.ts and delete ${relativePath}: TenantGuard checks the X-Tenant-ID header now`
+        );
+      } else if (!(await removeFile(middlewarePath))) {
+        addManualStep(`Move your changes in ${relativePath} to tenant.guard.ts, then delete it`);
+      }
+    },
+  },
+  {
+    version: '1.1.0',
+    description: 'Replace the auth placeholders with a working AuthService and AuthController',
+    async apply({ projectRoot, sourceDir, config, templatesDir, addManualStep }) {
+      const authDir = path.join(sourceDir, 'auth');
+      for (const file of LEGACY_AUTH_PLACEHOLDERS) {
+        markLegacy(path.join(authDir, file), legacyPlaceholder(file, 'auth'));
+      }
+      markLegacy(path.join(authDir, 'strategies', 'jwt.strategy.ts'), legacyJwtStrategy(config));
+      markLegacy(path.join(sourceDir, 'database', 'schema.prisma'), legacyPrismaSchema(config));
+      markLegacy(path.join(sourceDir, 'database', 'entities', 'user.entity.ts'), legacyUserEntity(config));
+      markLegacy(path.join(projectRoot, '.env.example'), legacyEnvTemplate(config));
+
+      await generateAuthModule(sourceDir, config, templatesDir, await readNestMajor(projectRoot));
+      // AuthService stores users and sessions through PrismaService and sends mail through MailerService
+      await generateDatabaseModule(sourceDir, config, templatesDir);
+      if (!hasSupabaseAuth(config)) {
+        await generateMailModule(sourceDir, config);
+      }
+
+      // The DTOs, context files and .env.example describe the new endpoints
+      await generateDTOsWithValidation(sourceDir, config);
+      await generateContextFiles(sourceDir, config);
+      await generateEnvTemplate(projectRoot, config);
+
+      addManualStep('Install the dependencies added to package.json');
+      addManualStep('Run prisma:migrate to apply the schema changes and regenerate the Prisma client');
+    },
+  },
+];
@@ -0,0 +1,91 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthBPConfig, DEFAULT_CONFIG } from '../prompts';
+import { setWriteOptions } from '../utils/file-generator';
+import { Feature, addFeature, generateProjectStructure } from './project.generator';
+
+const TEMPLATES_DIR = path.join(__dirname, '..', '..', 'templates');
+
+let projectRoot: string;
+
+beforeEach(async () => {
+  projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-bp-nest-'));
+  await fs.writeJson(path.join(projectRoot, 'package.json'), { name: 'host', dependencies: {} });
+  setWriteOptions({ projectRoot, conflictPolicy: 'overwrite' });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.remove(projectRoot);
+});
+
+async function scaffold(config: Partial<AuthBPConfig> = {}): Promise<void> {
+  await generateProjectStructure({
+    projectRoot,
+    config: { ...DEFAULT_CONFIG, ...config },
+    templatesDir: TEMPLATES_DIR,
+  });
+}
+
+function readEnvExample(): Promise<string> {
+  return fs.readFile(path.join(projectRoot, '.env.example'), 'utf8');
+}
+
+describe('generateProjectStructure', () => {
+  it('leaves the host main.ts alone unless hardenMain is set', async () => {
+    const mainPath = path.join(projectRoot, 'src', 'main.ts');
+    const main = [
+      "import { NestFactory } from '@nestjs/core';",
+      "import { AppModule } from './app.module';",
+      '',
+      'async function bootstrap() {',
+      '  const app = await NestFactory.create(AppModule);',
+      '  await app.listen(3000);',
+      '}',
+      'bootstrap();',
+      '',
+    ].join('\n');
+    await fs.outputFile(mainPath, main);
+
+    await scaffold();
+    expect(await fs.readFile(mainPath, 'utf8')).toBe(main);
+    expect(await fs.pathExists(path.join(projectRoot, 'src', 'common', 'configure-app.ts'))).toBe(false);
+
+    await scaffold({ hardenMain: true });
+    expect(await fs.readFile(mainPath, 'utf8')).toContain('configureApp(app)');
+  });
+});
+
+describe('addFeature', () => {
+  it.each<[Feature, string[]]>([
+    [
+      'email-verification',
+      ['EMAIL_VERIFICATION_URL=', 'EMAIL_VERIFICATION_EXPIRATION=', 'EMAIL_VERIFICATION_RESEND_INTERVAL='],
+    ],
+    [
+      'mfa',
+      ['MFA_ENCRYPTION_KEY=', 'MFA_CHALLENGE_SECRET=', 'MFA_MAX_ATTEMPTS=', 'LOGIN_ATTEMPT_STORE='],
+    ],
+    ['magic-link', ['MAGIC_LINK_URL=', 'MAGIC_LINK_EXPIRATION=']],
+    ['api-keys', ['API_KEY_PREFIX=']],
+    [
+      'login-protection',
+      ['LOGIN_MAX_ATTEMPTS=', 'LOGIN_LOCKOUT_DURATION=', 'LOGIN_UNLOCK_URL=', 'LOGIN_ATTEMPT_STORE='],
+    ],
+  ])('adds the variables of %s to .env.example', async (feature, variables) => {
+    await scaffold();
+    const before = await readEnvExample();
+    for (const variable of variables) {
+      expect(before).not.toContain(variable);
+    }
+
+    await expect(addFeature({ projectRoot, feature, templatesDir: TEMPLATES_DIR })).resolves.toBe(true);
+
+    const after = await readEnvExample();
+    for (const variable of variables) {
+      expect(after).toContain(variable);
+    }
+  });
+});
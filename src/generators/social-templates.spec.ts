@@ -0,0 +1,153 @@
+import 'reflect-metadata';
+import { OAuth2Server } from 'oauth2-mock-server';
+import { GeneratedCode, writeGeneratedCode } from '../testing/generated-code';
+import { generateOidcStrategy, generateSocialAuthService } from './social-templates';
+
+const ENV = ['OIDC_ISSUER_URL', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'OIDC_CALLBACK_URL'];
+const CALLBACK_URL = 'http://localhost:3000/auth/oidc/callback';
+
+interface AuthResult {
+  redirect?: string;
+  user?: unknown;
+  error?: Error;
+  failure?: Error;
+}
+
+/**
+ * Run a passport strategy on a request the way passport.authenticate does
+ */
+function authenticate(strategy: any, request: Record<string, unknown>): Promise<AuthResult> {
+  return new Promise((resolve) => {
+    const action = Object.create(strategy);
+    action.redirect = (redirect: string) => resolve({ redirect });
+    action.success = (user: unknown) => resolve({ user });
+    action.error = (error: Error) => resolve({ error });
+    action.fail = (failure: Error) => resolve({ failure });
+    action.authenticate(request, {});
+  });
+}
+
+describe('OidcStrategy', () => {
+  const config = { socialProviders: ['oidc' as const], emailVerification: false, mfa: false };
+
+  let code: GeneratedCode;
+  let server: OAuth2Server;
+  let claims: Record<string, unknown>;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeAll(async () => {
+    code = await writeGeneratedCode({
+      'auth/social/social-auth.service.ts': generateSocialAuthService(config),
+      'auth/strategies/oidc.strategy.ts': generateOidcStrategy(config),
+    });
+
+    // A local OpenID Connect issuer: signs ID tokens with its own key
+    server = new OAuth2Server();
+    await server.issuer.keys.generate('RS256');
+    await server.start(0, '127.0.0.1');
+    server.service.on('beforeTokenSigning', (token) => Object.assign(token.payload, claims));
+    server.service.on('beforeUserinfo', (userinfo) => {
+      userinfo.body = { sub: claims.sub, email: claims.email };
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await code.remove();
+  });
+
+  beforeEach(() => {
+    claims = {
+      sub: 'oidc-user-1',
+      email: 'jane@example.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe',
+    };
+
+    savedEnv = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+    process.env.OIDC_ISSUER_URL = server.issuer.url;
+    process.env.OIDC_CLIENT_ID = 'auth-bp-nest';
+    process.env.OIDC_CLIENT_SECRET = 'client-secret';
+    process.env.OIDC_CALLBACK_URL = CALLBACK_URL;
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  /**
+   * Start the login, let the issuer authorize it and return the callback request
+   */
+  async function authorize(strategy: any): Promise<Record<string, unknown>> {
+    const session = {};
+    const start = await authenticate(strategy, { method: 'GET', url: '/auth/oidc', query: {}, session });
+    expect(start.redirect).toMatch(new RegExp(`^${server.issuer.url}/authorize\\?`));
+
+    const response = await fetch(start.redirect!, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location')!);
+    expect(`${callback.origin}${callback.pathname}`).toBe(CALLBACK_URL);
+
+    return {
+      method: 'GET',
+      url: `${callback.pathname}${callback.search}`,
+      query: Object.fromEntries(callback.searchParams),
+      session,
+    };
+  }
+
+  async function createStrategy(socialAuth: unknown): Promise<any> {
+    const { oidcStrategyProvider } = code.load('auth/strategies/oidc.strategy');
+    return oidcStrategyProvider.useFactory(socialAuth);
+  }
+
+  it('signs in with the identity from the ID token and userinfo', async () => {
+    const user = { id: 'user-1' };
+    const socialAuth = { findOrCreateUser: jest.fn().mockResolvedValue(user) };
+    const strategy = await createStrategy(socialAuth);
+
+    const result = await authenticate(strategy, await authorize(strategy));
+
+    expect(result).toEqual({ user });
+    expect(socialAuth.findOrCreateUser).toHaveBeenCalledWith({
+      provider: 'oidc',
+      providerAccountId: 'oidc-user-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+  });
+
+  it('rejects an unverified email address', async () => {
+    claims.email_verified = false;
+    const { SocialAuthService } = code.load('auth/social/social-auth.service');
+    const prisma = { account: { findUnique: jest.fn().mockResolvedValue(null) } };
+    const strategy = await createStrategy(new SocialAuthService(prisma));
+
+    const result = await authenticate(strategy, await authorize(strategy));
+
+    expect(result.error?.message).toBe('oidc did not return a verified email address');
+  });
+
+  it('rejects a callback whose state does not match the session', async () => {
+    const socialAuth = { findOrCreateUser: jest.fn() };
+    const strategy = await createStrategy(socialAuth);
+    const callback = await authorize(strategy);
+
+    const result = await authenticate(strategy, {
+      ...callback,
+      url: (callback.url as string).replace(/state=[^&]+/, 'state=forged'),
+    });
+
+    // Passport answers a failure with 401
+    expect(result.failure?.message).toMatch(/state mismatch/);
+    expect(socialAuth.findOrCreateUser).not.toHaveBeenCalled();
+  });
+});
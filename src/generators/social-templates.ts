@@ -0,0 +1,322 @@
+import { AuthBPConfig, hasCookieTransport, hasPasswordLogin, SocialProvider } from '../prompts';
+
+/**
+ * SocialTemplates
+ *
+ * Source of the optional OAuth2/OIDC login: passport strategies for Google,
+ * GitHub and any OpenID Connect issuer, SocialAuthService (links provider
+ * identities to users through the Account model) and SocialAuthController
+ * (the redirect and callback routes).
+ */
+
+type SocialTemplateConfig = Pick<AuthBPConfig, 'emailVerification' | 'loginMethod' | 'mfa' | 'tokenTransport'> & {
+  socialProviders: SocialProvider[];
+};
+
+/**
+ * Routes that run the OAuth handshake and need the short-lived state cookie
+ */
+export function getSocialRoutes(providers: SocialProvider[]): string[] {
+  return providers.flatMap((provider) => [`auth/${provider}`, `auth/${provider}/callback`]);
+}
+
+export function generateSocialAuthService(config: SocialTemplateConfig): string {
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+/**
+ * A user identity returned by a social provider
+ */
+export interface SocialProfile {
+  provider: '${config.socialProviders.join("' | '")}';
+  /** Stable user id at the provider (OIDC \`sub\`) */
+  providerAccountId: string;
+  email?: string;
+  /** Whether the provider vouches for the email address */
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+@Injectable()
+export class SocialAuthService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Resolve the user for a provider identity:
+   * 1. the user whose Account already links this identity
+   * 2. the user with the same email, if the provider verified it (the identity is linked)
+   * 3. a new user without a password
+   */
+  async findOrCreateUser(profile: SocialProfile): Promise<User> {
+    const account = await this.prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider: profile.provider,
+          providerAccountId: profile.providerAccountId,
+        },
+      },
+      include: { user: true },
+    });
+    if (account) {
+      return account.user;
+    }
+
+    // Linking on an unverified email would let anyone claim an existing account
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedException(\`\${profile.provider} did not return a verified email address\`);
+    }
+
+    const email = profile.email.toLowerCase();
+    const accountData = {
+      provider: profile.provider,
+      providerAccountId: profile.providerAccountId,
+      email,
+    };
+
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {${
+      config.emailVerification && hasPasswordLogin(config)
+        ? `
+      // Someone else may have registered this address with a password before
+      // its owner verified it: the provider proves ownership, so drop that password
+      if (!existing.emailVerifiedAt) {
+        return this.prisma.user.update({
+          where: { id: existing.id },
+          data: {
+            emailVerifiedAt: new Date(),
+            passwordHash: null,
+            sessions: { deleteMany: {} },
+            accounts: { create: accountData },
+          },
+        });
+      }
+`
+        : config.emailVerification
+          ? `
+      // The provider proves ownership of the address
+      if (!existing.emailVerifiedAt) {
+        return this.prisma.user.update({
+          where: { id: existing.id },
+          data: { emailVerifiedAt: new Date(), accounts: { create: accountData } },
+        });
+      }
+`
+          : ''
+    }
+      await this.prisma.account.create({ data: { ...accountData, userId: existing.id } });
+      return existing;
+    }
+
+    return this.prisma.user.create({
+      data: {
+        email,
+        firstName: profile.firstName,
+        lastName: profile.lastName,${config.emailVerification ? '\n        emailVerifiedAt: new Date(),' : ''}
+        accounts: { create: accountData },
+      },
+    });
+  }
+}
+`;
+}
+
+export function generateSocialAuthController(config: SocialTemplateConfig): string {
+  const cookies = hasCookieTransport(config);
+  const routes = config.socialProviders
+    .map(
+      (provider) => `
+  @Get('${provider}')
+  @UseGuards(AuthGuard('${provider}'))
+  ${provider}Login() {
+    // The guard redirects to the provider
+  }
+
+  @Get('${provider}/callback')
+  @UseGuards(AuthGuard('${provider}'))
+  @Redirect()
+  ${provider}Callback(@Req() request: Request${cookies ? ', @Res({ passthrough: true }) response: Response' : ''}) {
+    return this.finishLogin(request${cookies ? ', response' : ''});
+  }
+`
+    )
+    .join('');
+
+  return `import { Controller, Get, Redirect, Req, ${cookies ? 'Res, ' : ''}UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { User } from '@prisma/client';
+import { Request${cookies ? ', Response' : ''} } from 'express';${
+    cookies ? `\nimport { ${config.mfa ? 'setLoginCookies' : 'setAuthCookies'} } from '../auth-cookies';` : ''
+  }
+import { AuthService } from '../auth.service';
+import { buildLoginRedirectUrl } from '../login-redirect';
+import { Public } from '../public.decorator';
+import { getSessionMetadata } from '../session.service';
+
+/**
+ * GET /auth/<provider> starts the login; the provider sends the user back to
+ * /auth/<provider>/callback, which redirects to SOCIAL_LOGIN_REDIRECT_URL with
+ * the login result in the URL fragment (fragments are not sent to servers).${
+   cookies ? '\n * The tokens themselves are set as cookies and stay out of the URL.' : ''
+ }
+ */
+@Public()
+@Controller('auth')
+export class SocialAuthController {
+  constructor(private authService: AuthService) {}
+${routes}
+  private async finishLogin(request: Request${cookies ? ', response: Response' : ''}): Promise<{ url: string }> {
+    const ${cookies ? 'login' : 'result'} = await this.authService.completeExternalLogin(
+      request.user as User,
+      getSessionMetadata(request),
+    );${cookies ? `\n    const result = ${config.mfa ? 'setLoginCookies' : 'setAuthCookies'}(response, login);` : ''}
+    return {
+      url: buildLoginRedirectUrl(
+        process.env.SOCIAL_LOGIN_REDIRECT_URL ?? 'http://localhost:3000/auth/callback',
+        result,
+      ),
+    };
+  }
+}
+`;
+}
+
+export function generateGoogleStrategy(config: SocialTemplateConfig): string {
+  return `import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { User } from '@prisma/client';
+import { Profile, Strategy } from 'passport-google-oauth20';
+import { SocialAuthService } from '../social/social-auth.service';
+
+@Injectable()
+export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
+  constructor(private socialAuth: SocialAuthService) {
+    super({
+      clientID: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      callbackURL: process.env.GOOGLE_CALLBACK_URL,
+      scope: ['openid', 'email', 'profile'],
+      state: true,
+    });
+  }
+
+  validate(accessToken: string, refreshToken: string, profile: Profile): Promise<User> {
+    const email = profile.emails?.[0];
+    return this.socialAuth.findOrCreateUser({
+      provider: 'google',
+      providerAccountId: profile.id,
+      email: email?.value,
+      emailVerified: email?.verified === true,
+      firstName: profile.name?.givenName,
+      lastName: profile.name?.familyName,
+    });
+  }
+}
+`;
+}
+
+export function generateGithubStrategy(config: SocialTemplateConfig): string {
+  return `import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { User } from '@prisma/client';
+import { Profile, Strategy } from 'passport-github2';
+import { SocialAuthService } from '../social/social-auth.service';
+
+/**
+ * With allRawEmails, profile.emails holds GitHub's email objects
+ */
+interface GithubEmail {
+  value: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+@Injectable()
+export class GithubStrategy extends PassportStrategy(Strategy, 'github') {
+  constructor(private socialAuth: SocialAuthService) {
+    super({
+      clientID: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET,
+      callbackURL: process.env.GITHUB_CALLBACK_URL,
+      scope: ['read:user', 'user:email'],
+      allRawEmails: true,
+      state: true,
+    });
+  }
+
+  validate(accessToken: string, refreshToken: string, profile: Profile): Promise<User> {
+    const emails = (profile.emails ?? []) as unknown as GithubEmail[];
+    const email = emails.find((candidate) => candidate.primary) ?? emails[0];
+    const [firstName, ...lastName] = (profile.displayName ?? '').split(' ');
+
+    return this.socialAuth.findOrCreateUser({
+      provider: 'github',
+      providerAccountId: profile.id,
+      email: email?.value,
+      emailVerified: email?.verified === true,
+      firstName: firstName || undefined,
+      lastName: lastName.join(' ') || undefined,
+    });
+  }
+}
+`;
+}
+
+export function generateOidcStrategy(config: SocialTemplateConfig): string {
+  return `import { Provider } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { User } from '@prisma/client';
+import { Client, Issuer, Strategy, TokenSet } from 'openid-client';
+import { SocialAuthService } from '../social/social-auth.service';
+
+/**
+ * Login with any OpenID Connect issuer (Keycloak, Auth0, Okta, Entra ID...).
+ * The issuer is discovered from OIDC_ISSUER_URL at startup, so a local mock
+ * issuer (e.g. \`npx oauth2-mock-server\`) works for offline testing.
+ */
+export class OidcStrategy extends PassportStrategy(Strategy, 'oidc') {
+  constructor(
+    private client: Client,
+    private socialAuth: SocialAuthService,
+  ) {
+    super({
+      client,
+      params: { scope: process.env.OIDC_SCOPE ?? 'openid email profile' },
+      usePKCE: true,
+    });
+  }
+
+  async validate(tokenSet: TokenSet): Promise<User> {
+    // Some issuers only put the email in the userinfo response
+    const claims = this.client.issuer.metadata.userinfo_endpoint
+      ? { ...tokenSet.claims(), ...(await this.client.userinfo(tokenSet)) }
+      : tokenSet.claims();
+
+    return this.socialAuth.findOrCreateUser({
+      provider: 'oidc',
+      providerAccountId: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+    });
+  }
+}
+
+export const oidcStrategyProvider: Provider = {
+  provide: OidcStrategy,
+  inject: [SocialAuthService],
+  useFactory: async (socialAuth: SocialAuthService) => {
+    const issuer = await Issuer.discover(process.env.OIDC_ISSUER_URL ?? '');
+    const client = new issuer.Client({
+      client_id: process.env.OIDC_CLIENT_ID ?? '',
+      client_secret: process.env.OIDC_CLIENT_SECRET,
+      redirect_uris: [process.env.OIDC_CALLBACK_URL ?? ''],
+      response_types: ['code'],
+    });
+    return new OidcStrategy(client, socialAuth);
+  },
+};
+`;
+}
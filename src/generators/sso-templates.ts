@@ -0,0 +1,528 @@
+import { AuthBPConfig, hasCookieTransport, hasPasswordLogin } from '../prompts';
+
+/**
+ * SsoTemplates
+ *
+ * Source of the per-tenant enterprise SSO (multitenant scaffolds only). Each
+ * tenant registers OIDC or SAML identity providers in the IdentityProvider
+ * model; SsoService discovers the provider for an email domain or tenant slug,
+ * creates users just in time and maps IdP groups to roles, while
+ * OidcSsoService (openid-client) and SamlSsoService (@node-saml/node-saml)
+ * speak the protocols. SsoController exposes the discovery, login, callback,
+ * ACS and SAML metadata routes.
+ */
+
+type SsoTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'emailVerification' | 'loginMethod' | 'mfa' | 'tokenTransport'>;
+
+/**
+ * Routes that run the OIDC handshake and need the short-lived state cookie
+ */
+export const SSO_STATE_ROUTES = ['auth/sso/:providerId/login', 'auth/sso/:providerId/callback'];
+
+export function generateSsoService(config: SsoTemplateConfig): string {
+  return `import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { IdentityProvider, User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+export type SsoProtocol = 'oidc' | 'saml';
+
+/**
+ * A user identity asserted by a tenant's identity provider
+ */
+export interface SsoProfile {
+  /** Stable user id at the IdP (OIDC \`sub\`, SAML NameID) */
+  subject: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  groups: string[];
+}
+
+/**
+ * Claim (OIDC) or attribute (SAML) names read from the IdP's assertion.
+ * IdentityProvider.attributeMapping overrides them per provider.
+ */
+export interface AttributeMapping {
+  email: string;
+  firstName: string;
+  lastName: string;
+  groups: string;
+}
+
+export const DEFAULT_ATTRIBUTE_MAPPING: Record<SsoProtocol, AttributeMapping> = {
+  oidc: { email: 'email', firstName: 'given_name', lastName: 'family_name', groups: 'groups' },
+  saml: { email: 'email', firstName: 'firstName', lastName: 'lastName', groups: 'groups' },
+};
+
+/**
+ * Public URL of an SSO route of a provider, built from SSO_BASE_URL
+ */
+export function getSsoUrl(
+  provider: IdentityProvider,
+  route: 'login' | 'callback' | 'acs' | 'metadata',
+): string {
+  const baseUrl = (process.env.SSO_BASE_URL ?? 'http://localhost:3001').replace(/\\/+$/, '');
+  return \`\${baseUrl}/auth/sso/\${provider.id}/\${route}\`;
+}
+
+/**
+ * Read an SsoProfile from OIDC claims or SAML attributes using the provider's mapping
+ */
+export function mapSsoProfile(
+  provider: IdentityProvider,
+  claims: Record<string, unknown>,
+  subject: string,
+): SsoProfile {
+  const mapping: AttributeMapping = {
+    ...DEFAULT_ATTRIBUTE_MAPPING[provider.protocol as SsoProtocol],
+    ...((provider.attributeMapping ?? {}) as Partial<AttributeMapping>),
+  };
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] : value);
+  const asString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+  const groups = claims[mapping.groups];
+
+  return {
+    subject,
+    email: asString(first(claims[mapping.email])),
+    firstName: asString(first(claims[mapping.firstName])),
+    lastName: asString(first(claims[mapping.lastName])),
+    groups: (Array.isArray(groups) ? groups : groups === undefined ? [] : [groups]).map(String),
+  };
+}
+
+@Injectable()
+export class SsoService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Find the identity provider for an email domain, or else for a tenant slug
+   */
+  async discover(query: { email?: string; tenant?: string }): Promise<IdentityProvider> {
+    if (!query.email && !query.tenant) {
+      throw new BadRequestException('Provide an email or a tenant');
+    }
+
+    const domain = query.email?.split('@').pop()?.toLowerCase();
+    const provider =
+      (domain &&
+        (await this.prisma.identityProvider.findFirst({
+          where: { enabled: true, domains: { has: domain } },
+        }))) ||
+      (query.tenant &&
+        (await this.prisma.identityProvider.findFirst({
+          where: { enabled: true, tenant: { slug: query.tenant } },
+          orderBy: { createdAt: 'asc' },
+        })));
+
+    if (!provider) {
+      throw new NotFoundException('No single sign-on provider for this email or tenant');
+    }
+    return provider;
+  }
+
+  async getProvider(id: string, protocol?: SsoProtocol): Promise<IdentityProvider> {
+    const provider = await this.prisma.identityProvider.findFirst({
+      where: { id, enabled: true, ...(protocol ? { protocol } : {}) },
+    });
+    if (!provider) {
+      throw new NotFoundException('Single sign-on provider not found');
+    }
+    return provider;
+  }
+
+  /**
+   * Resolve the user for an IdP identity, creating it just in time inside the
+   * provider's tenant:
+   * 1. the user already linked to this identity (SsoIdentity)
+   * 2. the tenant user with the same email (the identity is linked)
+   * 3. a new user without a password
+   */
+  async findOrCreateUser(provider: IdentityProvider, profile: SsoProfile): Promise<User> {
+    const identity = await this.prisma.ssoIdentity.findUnique({
+      where: {
+        identityProviderId_subject: { identityProviderId: provider.id, subject: profile.subject },
+      },
+      include: { user: true },
+    });
+
+    const user = identity?.user ?? (await this.linkOrCreateUser(provider, profile));
+    // An IdP only signs users in to its own tenant
+    if (user.tenantId !== provider.tenantId) {
+      throw new UnauthorizedException('This account belongs to another tenant');
+    }${
+      config.rbac
+        ? `
+
+    await this.syncRoles(provider, user.id, profile.groups);`
+        : ''
+    }
+    return user;
+  }
+
+  private async linkOrCreateUser(provider: IdentityProvider, profile: SsoProfile): Promise<User> {
+    if (!profile.email) {
+      throw new UnauthorizedException('The identity provider did not return an email address');
+    }
+
+    const email = profile.email.toLowerCase();
+    // With domains configured, the IdP can only assert addresses in those domains
+    if (provider.domains.length > 0 && !provider.domains.includes(email.split('@').pop() ?? '')) {
+      throw new UnauthorizedException(\`\${email} is not in a domain of this identity provider\`);
+    }
+
+    const identity = { identityProviderId: provider.id, subject: profile.subject };
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      if (existing.tenantId !== provider.tenantId) {
+        throw new UnauthorizedException('This account belongs to another tenant');
+      }
+
+      return this.prisma.user.update({
+        where: { id: existing.id },
+        data: {${
+          config.emailVerification && hasPasswordLogin(config)
+            ? `
+          // The IdP proves ownership of the address: a password set before it
+          // was verified may belong to someone else
+          ...(existing.emailVerifiedAt
+            ? {}
+            : { emailVerifiedAt: new Date(), passwordHash: null, sessions: { deleteMany: {} } }),`
+            : config.emailVerification
+              ? `
+          // The IdP proves ownership of the address
+          emailVerifiedAt: existing.emailVerifiedAt ?? new Date(),`
+              : ''
+        }
+          ssoIdentities: { create: identity },
+        },
+      });
+    }
+
+    return this.prisma.user.create({
+      data: {
+        email,
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        tenantId: provider.tenantId,${config.emailVerification ? '\n        emailVerifiedAt: new Date(),' : ''}
+        ssoIdentities: { create: identity },
+      },
+    });
+  }${
+    config.rbac
+      ? `
+
+  /**
+   * Grant the roles mapped from the user's IdP groups and remove the mapped
+   * roles they lost. Roles that no group maps to are left alone, so roles
+   * assigned by hand survive SSO logins.
+   */
+  private async syncRoles(provider: IdentityProvider, userId: string, groups: string[]): Promise<void> {
+    const mapping = (provider.groupRoleMapping ?? {}) as Record<string, string | string[]>;
+    const rolesOf = (group: string) => [mapping[group] ?? []].flat();
+    const managed = new Set(Object.keys(mapping).flatMap(rolesOf));
+    if (managed.size === 0) {
+      return;
+    }
+
+    const granted = new Set(groups.flatMap(rolesOf));
+    const roles = await this.prisma.role.findMany({
+      where: {
+        name: { in: [...managed] },
+        OR: [{ tenantId: provider.tenantId }, { tenantId: null }],
+      },
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.userRole.deleteMany({
+        where: { userId, roleId: { in: roles.filter((role) => !granted.has(role.name)).map((role) => role.id) } },
+      }),
+      this.prisma.userRole.createMany({
+        data: roles.filter((role) => granted.has(role.name)).map((role) => ({ userId, roleId: role.id })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }`
+      : ''
+  }
+}
+`;
+}
+
+export function generateOidcSsoService(config: SsoTemplateConfig): string {
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { IdentityProvider } from '@prisma/client';
+import { Request } from 'express';
+import { BaseClient, generators, Issuer } from 'openid-client';
+import { getSsoUrl, mapSsoProfile, SsoProfile } from './sso.service';
+
+/**
+ * Kept in the auth_sso cookie between the redirect and the callback
+ */
+interface OidcLoginState {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Authorization code flow with PKCE against a tenant's OIDC provider
+ */
+@Injectable()
+export class OidcSsoService {
+  // Discovered clients, keyed by provider and its last update
+  private clients = new Map<string, Promise<BaseClient>>();
+
+  async getAuthorizationUrl(provider: IdentityProvider, request: Request): Promise<string> {
+    const client = await this.getClient(provider);
+    const login: OidcLoginState = {
+      providerId: provider.id,
+      state: generators.state(),
+      nonce: generators.nonce(),
+      codeVerifier: generators.codeVerifier(),
+    };
+    request.session = { oidc: login };
+
+    return client.authorizationUrl({
+      scope: provider.scopes ?? 'openid email profile',
+      state: login.state,
+      nonce: login.nonce,
+      code_challenge: generators.codeChallenge(login.codeVerifier),
+      code_challenge_method: 'S256',
+    });
+  }
+
+  async handleCallback(provider: IdentityProvider, request: Request): Promise<SsoProfile> {
+    const login = request.session?.oidc as OidcLoginState | undefined;
+    request.session = null;
+    if (!login || login.providerId !== provider.id) {
+      throw new UnauthorizedException('The single sign-on attempt expired, start again');
+    }
+
+    try {
+      const client = await this.getClient(provider);
+      const tokenSet = await client.callback(getSsoUrl(provider, 'callback'), client.callbackParams(request), {
+        state: login.state,
+        nonce: login.nonce,
+        code_verifier: login.codeVerifier,
+      });
+      // Some providers only put profile claims and groups in the userinfo response
+      const claims = client.issuer.metadata.userinfo_endpoint
+        ? { ...tokenSet.claims(), ...(await client.userinfo(tokenSet)) }
+        : tokenSet.claims();
+
+      return mapSsoProfile(provider, claims, claims.sub);
+    } catch (error: any) {
+      throw new UnauthorizedException(\`Single sign-on failed: \${error.message}\`);
+    }
+  }
+
+  private getClient(provider: IdentityProvider): Promise<BaseClient> {
+    const key = \`\${provider.id}:\${provider.updatedAt.getTime()}\`;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = Issuer.discover(provider.issuer ?? '').then(
+        (issuer) =>
+          new issuer.Client({
+            client_id: provider.clientId ?? '',
+            client_secret: provider.clientSecret ?? undefined,
+            redirect_uris: [getSsoUrl(provider, 'callback')],
+            response_types: ['code'],
+          }),
+      );
+      // Retry discovery on the next login instead of caching the failure
+      client.catch(() => this.clients.delete(key));
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+}
+`;
+}
+
+export function generateSamlSsoService(config: SsoTemplateConfig): string {
+  return `import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { IdentityProvider } from '@prisma/client';
+import { SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { getSsoUrl, mapSsoProfile, SsoProfile } from './sso.service';
+
+/**
+ * SP-initiated SAML 2.0 login: HTTP-Redirect to the IdP, HTTP-POST back to the ACS.
+ * The SP entity ID of each provider is its metadata URL.
+ */
+@Injectable()
+export class SamlSsoService {
+  // One SAML instance per provider: it also remembers the AuthnRequest IDs
+  // that responses must answer (InResponseTo), which rejects replayed and
+  // IdP-initiated responses. Use a shared cacheProvider when running several instances.
+  private clients = new Map<string, SAML>();
+
+  getLoginUrl(provider: IdentityProvider): Promise<string> {
+    return this.getClient(provider).getAuthorizeUrlAsync('', undefined, {});
+  }
+
+  async handleResponse(provider: IdentityProvider, body: Record<string, string>): Promise<SsoProfile> {
+    try {
+      const { profile } = await this.getClient(provider).validatePostResponseAsync(body);
+      if (!profile) {
+        throw new Error('no assertion in the response');
+      }
+      return mapSsoProfile(provider, profile, profile.nameID);
+    } catch (error: any) {
+      throw new UnauthorizedException(\`SAML response rejected: \${error.message}\`);
+    }
+  }
+
+  getMetadata(provider: IdentityProvider): string {
+    return this.getClient(provider).generateServiceProviderMetadata(null);
+  }
+
+  private getClient(provider: IdentityProvider): SAML {
+    const key = \`\${provider.id}:\${provider.updatedAt.getTime()}\`;
+    let client = this.clients.get(key);
+    if (!client) {
+      const entityId = getSsoUrl(provider, 'metadata');
+      client = new SAML({
+        issuer: entityId,
+        audience: entityId,
+        callbackUrl: getSsoUrl(provider, 'acs'),
+        entryPoint: provider.ssoUrl ?? undefined,
+        idpIssuer: provider.issuer ?? undefined,
+        idpCert: provider.certificates,
+        wantAssertionsSigned: true,
+        wantAuthnResponseSigned: false,
+        validateInResponseTo: ValidateInResponseTo.always,
+      });
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+}
+`;
+}
+
+export function generateSsoController(config: SsoTemplateConfig): string {
+  const cookies = hasCookieTransport(config);
+  const responseParam = cookies ? ', @Res({ passthrough: true }) response: Response' : '';
+
+  return `import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Redirect,
+  Req,${cookies ? '\n  Res,' : ''}
+} from '@nestjs/common';
+import { IdentityProvider } from '@prisma/client';
+import { Request${cookies ? ', Response' : ''} } from 'express';${
+    cookies ? `\nimport { ${config.mfa ? 'setLoginCookies' : 'setAuthCookies'} } from '../auth-cookies';` : ''
+  }
+import { AuthService } from '../auth.service';
+import { SsoDiscoverDto } from '../dto/sso-discover.dto';
+import { buildLoginRedirectUrl } from '../login-redirect';
+import { Public } from '../public.decorator';
+import { getSessionMetadata } from '../session.service';
+import { OidcSsoService } from './oidc-sso.service';
+import { SamlSsoService } from './saml-sso.service';
+import { getSsoUrl, SsoProfile, SsoService } from './sso.service';
+
+/**
+ * POST /auth/sso/discover finds the provider for an email or tenant; the browser
+ * then opens its loginUrl. OIDC providers return to /callback, SAML providers
+ * post to /acs; both redirect to SSO_LOGIN_REDIRECT_URL with the login result
+ * in the URL fragment.${cookies ? ' The tokens themselves are set as cookies.' : ''}
+ */
+@Public()
+@Controller('auth/sso')
+export class SsoController {
+  constructor(
+    private sso: SsoService,
+    private oidc: OidcSsoService,
+    private saml: SamlSsoService,
+    private authService: AuthService,
+  ) {}
+
+  @Post('discover')
+  @HttpCode(HttpStatus.OK)
+  async discover(@Body() dto: SsoDiscoverDto) {
+    const provider = await this.sso.discover(dto);
+    return {
+      providerId: provider.id,
+      name: provider.name,
+      protocol: provider.protocol,
+      loginUrl: getSsoUrl(provider, 'login'),
+    };
+  }
+
+  @Get(':providerId/login')
+  @Redirect()
+  async login(@Param('providerId') providerId: string, @Req() request: Request) {
+    const provider = await this.sso.getProvider(providerId);
+    const url =
+      provider.protocol === 'saml'
+        ? await this.saml.getLoginUrl(provider)
+        : await this.oidc.getAuthorizationUrl(provider, request);
+    return { url };
+  }
+
+  @Get(':providerId/callback')
+  @Redirect()
+  async oidcCallback(@Param('providerId') providerId: string, @Req() request: Request${responseParam}) {
+    const provider = await this.sso.getProvider(providerId, 'oidc');
+    const profile = await this.oidc.handleCallback(provider, request);
+    return this.finishLogin(provider, profile, request${cookies ? ', response' : ''});
+  }
+
+  @Post(':providerId/acs')
+  @Redirect(undefined, HttpStatus.SEE_OTHER)
+  async samlAcs(
+    @Param('providerId') providerId: string,
+    @Body() body: Record<string, string>,
+    @Req() request: Request,${cookies ? '\n    @Res({ passthrough: true }) response: Response,' : ''}
+  ) {
+    const provider = await this.sso.getProvider(providerId, 'saml');
+    const profile = await this.saml.handleResponse(provider, body);
+    return this.finishLogin(provider, profile, request${cookies ? ', response' : ''});
+  }
+
+  /**
+   * SAML service provider metadata to register in the IdP
+   */
+  @Get(':providerId/metadata')
+  @Header('Content-Type', 'application/xml')
+  async metadata(@Param('providerId') providerId: string): Promise<string> {
+    const provider = await this.sso.getProvider(providerId, 'saml');
+    return this.saml.getMetadata(provider);
+  }
+
+  private async finishLogin(
+    provider: IdentityProvider,
+    profile: SsoProfile,
+    request: Request,${cookies ? '\n    response: Response,' : ''}
+  ): Promise<{ url: string }> {
+    const user = await this.sso.findOrCreateUser(provider, profile);
+    ${
+      cookies
+        ? `const login = await this.authService.completeExternalLogin(user, getSessionMetadata(request));
+    const result = ${config.mfa ? 'setLoginCookies' : 'setAuthCookies'}(response, login);`
+        : 'const result = await this.authService.completeExternalLogin(user, getSessionMetadata(request));'
+    }
+    return {
+      url: buildLoginRedirectUrl(
+        process.env.SSO_LOGIN_REDIRECT_URL ?? 'http://localhost:3000/auth/callback',
+        result,
+      ),
+    };
+  }
+}
+`;
+}
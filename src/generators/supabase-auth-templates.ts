@@ -0,0 +1,270 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * SupabaseAuthTemplates
+ *
+ * Source of the auth module in Supabase Auth mode: Supabase signs users in
+ * and issues the tokens, so the module only verifies them. JwtStrategy
+ * accepts Supabase access tokens signed with the project JWT secret (HS256)
+ * or a JWT signing key from the project JWKS, maps the app_metadata roles
+ * and tenant claims onto AuthenticatedUser (read by RbacGuard and
+ * @TenantId()), and SupabaseUserService keeps a local User row per
+ * Supabase user. JwtAuthGuard and the decorators come from auth-templates.
+ */
+
+type SupabaseAuthTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'multitenant'>;
+
+export function generateSupabaseAuthModule(config: SupabaseAuthTemplateConfig): string {
+  return `import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './auth.guard';
+import { JwtStrategy } from './strategies/jwt.strategy';
+import { SupabaseUserService } from './supabase-user.service';
+
+/**
+ * Sign-up, sign-in and token refresh happen in Supabase Auth (supabase-js
+ * on the client); this module verifies the access tokens it issues.
+ */
+@Module({
+  imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
+  controllers: [AuthController],
+  providers: [SupabaseUserService, JwtStrategy, JwtAuthGuard],
+  exports: [SupabaseUserService, PassportModule, JwtAuthGuard],
+})
+export class AuthModule {}
+`;
+}
+
+export function generateSupabaseJwtStrategy(config: SupabaseAuthTemplateConfig): string {
+  return `import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { passportJwtSecret } from 'jwks-rsa';
+import { ExtractJwt, SecretOrKeyProvider, Strategy } from 'passport-jwt';
+import { SupabaseUserService } from '../supabase-user.service';
+
+/**
+ * Claims of a Supabase Auth access token
+ */
+export interface SupabaseJwtPayload {
+  /** Supabase user id (auth.users.id) */
+  sub: string;
+  /** Empty for phone and anonymous users */
+  email?: string;
+  phone?: string;
+  /** Postgres role of the request: authenticated for signed-in users */
+  role: string;
+  session_id?: string;
+  is_anonymous?: boolean;
+  /** Only writable with the service role key, so roles and tenants are read from it */
+  app_metadata?: Record<string, unknown>;
+  /** Writable by the user: never use it for authorization */
+  user_metadata?: Record<string, unknown>;
+}
+
+/**
+ * What validate() returns; Passport sets it as request.user
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  email: string | null;
+  /** Supabase Auth session of the access token */
+  sessionId?: string;
+  isAnonymous: boolean;${
+    config.rbac
+      ? `
+  /** From app_metadata[SUPABASE_ROLES_CLAIM] */
+  roles: string[];`
+      : ''
+  }${
+    config.multitenant
+      ? `
+  /** From app_metadata[SUPABASE_TENANT_CLAIM] */
+  tenantId?: string;`
+      : ''
+  }
+}
+
+/**
+ * Verifies Supabase Auth access tokens: the issuer must be the project at
+ * SUPABASE_URL and the audience SUPABASE_JWT_AUDIENCE (authenticated), which
+ * rules out the anon and service role keys.
+ */
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy) {
+  constructor(private users: SupabaseUserService) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      issuer: \`\${getSupabaseUrl()}/auth/v1\`,
+      audience: process.env.SUPABASE_JWT_AUDIENCE ?? 'authenticated',
+      algorithms: ['HS256', 'RS256', 'ES256'],
+      secretOrKeyProvider: supabaseKeyProvider(),
+    });
+  }
+
+  async validate(payload: SupabaseJwtPayload): Promise<AuthenticatedUser> {
+    const user: AuthenticatedUser = {
+      userId: payload.sub,
+      email: payload.email || null,
+      sessionId: payload.session_id,
+      isAnonymous: payload.is_anonymous ?? false,${
+        config.rbac ? `\n      roles: readRoles(payload.app_metadata?.[process.env.SUPABASE_ROLES_CLAIM ?? 'roles']),` : ''
+      }${
+        config.multitenant
+          ? `\n      tenantId: readString(payload.app_metadata?.[process.env.SUPABASE_TENANT_CLAIM ?? 'tenant_id']),`
+          : ''
+      }
+    };
+
+    await this.users.sync(user);
+    return user;
+  }
+}
+
+function getSupabaseUrl(): string {
+  const url = process.env.SUPABASE_URL;
+  if (!url) {
+    throw new Error('SUPABASE_URL is required to verify Supabase Auth tokens');
+  }
+  return url.replace(/\\/+$/, '');
+}
+
+/**
+ * HS256 tokens (projects on the legacy JWT secret) are verified with
+ * SUPABASE_JWT_SECRET; RS256/ES256 tokens (JWT signing keys) with the public
+ * key named by their kid in the project JWKS, which is cached
+ */
+function supabaseKeyProvider(): SecretOrKeyProvider {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  const jwks = passportJwtSecret({
+    jwksUri: process.env.SUPABASE_JWKS_URL ?? \`\${getSupabaseUrl()}/auth/v1/.well-known/jwks.json\`,
+    cache: true,
+    rateLimit: true,
+    jwksRequestsPerMinute: 10,
+  });
+
+  return (request, rawJwtToken, done) => {
+    if (decodeHeader(rawJwtToken)?.alg !== 'HS256') {
+      return jwks(request, rawJwtToken, done);
+    }
+    // Without a secret, HS256 tokens are rejected
+    done(null, secret);
+  };
+}
+
+function decodeHeader(token: string): { alg?: string } | null {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}${
+    config.rbac
+      ? `
+
+/**
+ * Roles as a list, or a single role as a string
+ */
+function readRoles(value: unknown): string[] {
+  const roles = Array.isArray(value) ? value : [value];
+  return roles.filter((role): role is string => typeof role === 'string' && role !== '');
+}`
+      : ''
+  }${
+    config.multitenant
+      ? `
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}`
+      : ''
+  }
+`;
+}
+
+export function generateSupabaseUserService(config: SupabaseAuthTemplateConfig): string {
+  return `import { ${config.multitenant ? 'ForbiddenException, ' : ''}Injectable } from '@nestjs/common';
+import { PrismaService } from '../database/prisma.service';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * Keeps a local User row for every Supabase user, with the same id, so
+ * application tables can reference users. The row is created the first time
+ * a token of the user is seen and updated when the email${
+    config.multitenant ? ' or tenant' : ''
+  } in the token
+ * changes, otherwise at most every SUPABASE_USER_SYNC_TTL seconds per instance.${
+    config.multitenant
+      ? `
+ * A tenant claim naming no Tenant row is rejected with 403.`
+      : ''
+  }
+ */
+@Injectable()
+export class SupabaseUserService {
+  private readonly syncTtl = Number(process.env.SUPABASE_USER_SYNC_TTL ?? 300);
+  /** userId -> the synced values, and until when they are trusted */
+  private readonly synced = new Map<string, { values: string; expiresAt: number }>();
+
+  constructor(private prisma: PrismaService) {}
+
+  async sync(user: AuthenticatedUser): Promise<void> {
+    const data = { email: user.email${config.multitenant ? ', tenantId: user.tenantId ?? null' : ''} };
+    const values = JSON.stringify(data);
+    const cached = this.synced.get(user.userId);
+    if (cached && cached.values === values && cached.expiresAt > Date.now()) {
+      return;
+    }
+${
+  config.multitenant
+    ? `
+    if (user.tenantId) {
+      const tenant = await this.prisma.tenant.findUnique({ where: { id: user.tenantId }, select: { id: true } });
+      if (!tenant) {
+        throw new ForbiddenException('The tenant in the access token does not exist');
+      }
+    }
+`
+    : ''
+}
+    await this.prisma.user.upsert({
+      where: { id: user.userId },
+      create: { id: user.userId, ...data },
+      update: data,
+    });
+
+    this.pruneSynced();
+    this.synced.set(user.userId, { values, expiresAt: Date.now() + this.syncTtl * 1000 });
+  }
+
+  private pruneSynced(): void {
+    const now = Date.now();
+    for (const [userId, entry] of this.synced) {
+      if (entry.expiresAt <= now) {
+        this.synced.delete(userId);
+      }
+    }
+  }
+}
+`;
+}
+
+export function generateSupabaseAuthController(config: SupabaseAuthTemplateConfig): string {
+  return `import { Controller, Get } from '@nestjs/common';
+import { CurrentUser } from './current-user.decorator';
+import { AuthenticatedUser } from './strategies/jwt.strategy';
+
+/**
+ * Clients sign in with Supabase Auth and send its access token as
+ * Authorization: Bearer <access-token>
+ */
+@Controller('auth')
+export class AuthController {
+  @Get('me')
+  me(@CurrentUser() user: AuthenticatedUser) {
+    return user;
+  }
+}
+`;
+}
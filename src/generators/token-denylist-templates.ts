@@ -0,0 +1,145 @@
+import { AuthBPConfig } from '../prompts';
+
+/**
+ * TokenDenylistTemplates
+ *
+ * Source of the access token denylist checked by JwtStrategy: TokenDenylist
+ * (ids of revoked tokens and sessions, each kept until the tokens it covers
+ * expire) with an in-memory, a database (DeniedToken model) and a Redis
+ * implementation. SessionService denies the sid of every session it revokes
+ * and JwtTokenService denies the jti of a single revoked access token.
+ */
+
+type TokenDenylistTemplateConfig = Pick<AuthBPConfig, 'rbac' | 'multitenant'>;
+
+export function generateTokenDenylist(config: TokenDenylistTemplateConfig): string {
+  return `/**
+ * Revoked access tokens (by jti claim) and sessions (by sid claim). An id only
+ * needs to be kept until the tokens it covers have expired.
+ * Inject TokenDenylist; AuthModule picks the implementation from
+ * TOKEN_DENYLIST_STORE (database, memory or redis).
+ */
+export abstract class TokenDenylist {
+  /** Reject tokens carrying id until expiresAt */
+  abstract add(id: string, expiresAt: Date): Promise<void>;
+
+  /** Whether any of ids is denied */
+  abstract has(ids: string[]): Promise<boolean>;
+}
+`;
+}
+
+export function generateMemoryTokenDenylist(config: TokenDenylistTemplateConfig): string {
+  return `import { TokenDenylist } from '../token-denylist';
+
+/**
+ * Keeps denied ids in process memory. A revocation only reaches the instance
+ * that made it and is lost on restart, so use the database or Redis store
+ * with several instances.
+ */
+export class MemoryTokenDenylist extends TokenDenylist {
+  /** id -> expiry in milliseconds */
+  private readonly entries = new Map<string, number>();
+
+  async add(id: string, expiresAt: Date): Promise<void> {
+    this.sweep();
+    if (expiresAt.getTime() > Date.now()) {
+      this.entries.set(id, expiresAt.getTime());
+    }
+  }
+
+  async has(ids: string[]): Promise<boolean> {
+    const now = Date.now();
+    return ids.some((id) => (this.entries.get(id) ?? 0) > now);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+`;
+}
+
+export function generateDatabaseTokenDenylist(config: TokenDenylistTemplateConfig): string {
+  return `import { PrismaService } from '../../../database/prisma.service';
+import { TokenDenylist } from '../token-denylist';
+
+/**
+ * Keeps denied ids in the DeniedToken table, so every instance sees them.
+ * Each authenticated request costs one primary key lookup.
+ */
+export class DatabaseTokenDenylist extends TokenDenylist {
+  constructor(private readonly prisma: PrismaService) {
+    super();
+  }
+
+  async add(id: string, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    if (expiresAt <= now) {
+      return;
+    }
+
+    await this.prisma.deniedToken.upsert({
+      where: { id },
+      create: { id, expiresAt },
+      update: { expiresAt },
+    });
+    // Revocations are rare enough to clean up on the way
+    await this.prisma.deniedToken.deleteMany({ where: { expiresAt: { lte: now } } });
+  }
+
+  async has(ids: string[]): Promise<boolean> {
+    const count = await this.prisma.deniedToken.count({
+      where: { id: { in: ids }, expiresAt: { gt: new Date() } },
+    });
+    return count > 0;
+  }
+}
+`;
+}
+
+export function generateRedisTokenDenylist(config: TokenDenylistTemplateConfig): string {
+  return `import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { TokenDenylist } from '../token-denylist';
+
+/**
+ * Keeps denied ids in Redis (or any server speaking its protocol: Valkey,
+ * KeyDB, Dragonfly...) so every instance sees them. Keys expire with the
+ * tokens they cover. Pass a client to test against a local stand-in, e.g.
+ * \`new RedisTokenDenylist(new RedisMock())\` with ioredis-mock.
+ */
+export class RedisTokenDenylist extends TokenDenylist implements OnModuleDestroy {
+  constructor(
+    private readonly redis: Redis = new Redis(process.env.REDIS_URL ?? 'redis://localhost:6379', {
+      keyPrefix: process.env.REDIS_KEY_PREFIX ?? 'auth:',
+    }),
+  ) {
+    super();
+  }
+
+  async add(id: string, expiresAt: Date): Promise<void> {
+    const ttl = expiresAt.getTime() - Date.now();
+    if (ttl > 0) {
+      await this.redis.set(\`denied:\${id}\`, 1, 'PX', ttl);
+    }
+  }
+
+  async has(ids: string[]): Promise<boolean> {
+    if (ids.length === 0) {
+      return false;
+    }
+    return (await this.redis.exists(...ids.map((id) => \`denied:\${id}\`))) > 0;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+`;
+}
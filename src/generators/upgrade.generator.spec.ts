@@ -0,0 +1,102 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG } from '../prompts';
+import { setWriteOptions, stageWrites } from '../utils/file-generator';
+import { legacyTenantMiddleware } from './legacy-templates';
+import { MIGRATIONS } from './migrations';
+import { getPendingMigrations } from './upgrade.generator';
+
+describe('getPendingMigrations', () => {
+  const versions = (fromVersion: string, toVersion: string) =>
+    getPendingMigrations(fromVersion, toVersion).map((migration) => migration.version);
+
+  it('returns the migrations after the recorded version up to the installed one', () => {
+    expect(versions('1.0.0', '1.1.0')).toEqual(MIGRATIONS.map(() => '1.1.0'));
+    expect(versions('1.0.2', '1.1.5')).toHaveLength(MIGRATIONS.length);
+  });
+
+  it('keeps the order of the steps within a version', () => {
+    expect(getPendingMigrations('1.0.0', '1.1.0')).toEqual(MIGRATIONS);
+  });
+
+  it('skips migrations the scaffold already has or the installed version lacks', () => {
+    expect(versions('1.1.0', '1.1.0')).toEqual([]);
+    expect(versions('1.0.0', '1.0.2')).toEqual([]);
+  });
+});
+
+describe('1.1.0 tenant migration', () => {
+  const migration = MIGRATIONS.find((entry) => entry.description.includes('TenantGuard'))!;
+  const config = { ...DEFAULT_CONFIG, multitenant: true };
+
+  let projectRoot: string;
+  let manualSteps: string[];
+
+  const middlewarePath = () => path.join(projectRoot, 'src', 'tenant', 'tenant.middleware.ts');
+
+  const apply = () =>
+    stageWrites(() =>
+      migration.apply({
+        projectRoot,
+        sourceDir: path.join(projectRoot, 'src'),
+        config,
+        templatesDir: path.join(projectRoot, 'templates'),
+        addManualStep: (step) => manualSteps.push(step),
+      })
+    );
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-bp-nest-'));
+    manualSteps = [];
+    setWriteOptions({ projectRoot, conflictPolicy: 'merge' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await fs.outputFile(middlewarePath(), legacyTenantMiddleware(config));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(projectRoot);
+  });
+
+  it('replaces the untouched 1.0.x middleware with TenantGuard', async () => {
+    await apply();
+
+    expect(await fs.pathExists(middlewarePath())).toBe(false);
+    expect(await fs.pathExists(path.join(projectRoot, 'src', 'tenant', 'tenant.guard.ts'))).toBe(true);
+    expect(manualSteps).toEqual([]);
+  });
+
+  it('keeps an edited middleware and asks for the move', async () => {
+    await fs.appendFile(middlewarePath(), '// mine\n');
+
+    await apply();
+
+    expect(await fs.pathExists(middlewarePath())).toBe(true);
+    expect(manualSteps).toEqual([
+      `Move your changes in ${path.join('src', 'tenant', 'tenant.middleware.ts')} to tenant.guard.ts, then delete it`,
+    ]);
+  });
+
+  it('keeps the middleware while app.module.ts still uses it', async () => {
+    await fs.outputFile(
+      path.join(projectRoot, 'src', 'app.module.ts'),
+      "import { TenantMiddleware } from './tenant/tenant.middleware';\n"
+    );
+
+    await apply();
+
+    expect(await fs.pathExists(middlewarePath())).toBe(true);
+    expect(manualSteps[0]).toMatch(/^Remove TenantMiddleware from app\.module\.ts/);
+  });
+
+  it('changes nothing when applied again', async () => {
+    await apply();
+    const guard = await fs.readFile(path.join(projectRoot, 'src', 'tenant', 'tenant.guard.ts'), 'utf8');
+
+    await apply();
+
+    expect(await fs.readFile(path.join(projectRoot, 'src', 'tenant', 'tenant.guard.ts'), 'utf8')).toBe(guard);
+    expect(manualSteps).toEqual([]);
+  });
+});
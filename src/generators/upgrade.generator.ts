@@ -0,0 +1,113 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  GENERATOR_VERSION,
+  compareVersions,
+  generateConfigFile,
+  loadConfig,
+} from './config.generator';
+import { MIGRATIONS, Migration } from './migrations';
+import { integrateWithHost } from './project.generator';
+import { getConflictLog, stageWrites } from '../utils/file-generator';
+import { getSourceDir, resolveNestProject } from '../utils/nest-project';
+
+/**
+ * UpgradeGenerator
+ *
+ * Moves a scaffold from the generator version recorded in .auth-bp-config.json
+ * to the installed version by applying the pending migrations in order, then
+ * registers what they added in the host app.module.ts and package.json.
+ */
+
+export interface UpgradeOptions {
+  projectRoot: string;
+  templatesDir: string;
+}
+
+export interface UpgradeReport {
+  fromVersion: string;
+  toVersion: string;
+  applied: Migration[];
+  /** Files the user edited where the new version could not be merged automatically */
+  unmerged: string[];
+  /** Files left untouched because of --no-overwrite */
+  skipped: string[];
+  manualSteps: string[];
+}
+
+/**
+ * Migrations newer than `fromVersion` and no newer than `toVersion`, oldest first
+ */
+export function getPendingMigrations(fromVersion: string, toVersion: string): Migration[] {
+  return MIGRATIONS.filter(
+    (migration) =>
+      compareVersions(migration.version, fromVersion) > 0 &&
+      compareVersions(migration.version, toVersion) <= 0
+  ).sort((a, b) => compareVersions(a.version, b.version));
+}
+
+export async function upgradeProject(options: UpgradeOptions): Promise<UpgradeReport> {
+  const { projectRoot, templatesDir } = options;
+
+  const configFile = await loadConfig(projectRoot);
+  if (!configFile) {
+    throw new Error(
+      `No .auth-bp-config.json found in ${projectRoot}. Run "auth-bp-nest init" first`
+    );
+  }
+
+  const fromVersion = configFile.version ?? '0.0.0';
+  const toVersion = GENERATOR_VERSION;
+
+  if (compareVersions(fromVersion, toVersion) > 0) {
+    throw new Error(
+      `This project was generated by auth-bp-nest ${fromVersion}, which is newer than the installed ${toVersion}. Update auth-bp-nest first`
+    );
+  }
+
+  const { framework, ...config } = configFile.backend;
+  const sourceDir = getSourceDir(projectRoot, await resolveNestProject(projectRoot, config.project));
+  const report: UpgradeReport = {
+    fromVersion,
+    toVersion,
+    applied: [],
+    unmerged: [],
+    skipped: [],
+    manualSteps: [],
+  };
+
+  // Every migration is written together, once their conflicts are settled
+  await stageWrites(async () => {
+    const pending = getPendingMigrations(fromVersion, toVersion);
+    for (const migration of pending) {
+      console.log(chalk.cyan(`\n⬆️  ${migration.version}: ${migration.description}\n`));
+      await migration.apply({
+        projectRoot,
+        sourceDir,
+        config,
+        templatesDir,
+        addManualStep: (step) => report.manualSteps.push(step),
+      });
+      report.applied.push(migration);
+    }
+
+    if (report.applied.length > 0) {
+      await integrateWithHost(projectRoot, config);
+    }
+
+    if (compareVersions(fromVersion, toVersion) < 0) {
+      await generateConfigFile(projectRoot, config, toVersion);
+    }
+  });
+
+  for (const conflict of getConflictLog()) {
+    const relativePath = path.relative(projectRoot, conflict.filePath);
+    if (conflict.resolution === 'new-file') {
+      report.unmerged.push(relativePath);
+    } else if (conflict.resolution === 'skip') {
+      report.skipped.push(relativePath);
+    }
+  }
+
+  return report;
+}
@@ -1,15 +1,143 @@
 import inquirer from 'inquirer';
 
+export const DATABASE_CHOICES = ['supabase', 'gcloud-sql'] as const;
+
+export const SOCIAL_PROVIDER_CHOICES = ['google', 'github', 'oidc'] as const;
+
+export type SocialProvider = typeof SOCIAL_PROVIDER_CHOICES[number];
+
+export const LOGIN_METHOD_CHOICES = ['password', 'magic-link', 'both'] as const;
+
+export type LoginMethod = typeof LOGIN_METHOD_CHOICES[number];
+
+export const JWT_ALGORITHM_CHOICES = ['HS256', 'RS256', 'ES256'] as const;
+
+export type JwtAlgorithm = typeof JWT_ALGORITHM_CHOICES[number];
+
+export const TOKEN_TRANSPORT_CHOICES = ['bearer', 'cookie'] as const;
+
+export type TokenTransport = typeof TOKEN_TRANSPORT_CHOICES[number];
+
 export interface AuthBPConfig {
   database: 'supabase' | 'gcloud-sql';
+  /** Sign-in is left to Supabase Auth: its JWTs are verified and no tokens are issued; requires the supabase database */
+  supabaseAuth?: boolean;
   whitelabel: boolean;
   rbac: boolean;
   multitenant: boolean;
+  /** Sign in with a password, an emailed magic link, or either */
+  loginMethod?: LoginMethod;
+  /** HS256 signs access tokens with JWT_SECRET; RS256/ES256 use a rotatable key set published as a JWKS */
+  jwtAlgorithm?: JwtAlgorithm;
+  /** bearer returns tokens in the response body; cookie sets them as httpOnly cookies guarded by a CSRF token */
+  tokenTransport?: TokenTransport;
+  /** Create or patch src/main.ts with ValidationPipe, CORS, helmet and an auth exception filter */
+  hardenMain?: boolean;
+  /** Email new accounts a verification link and provide @RequireVerifiedEmail() */
+  emailVerification?: boolean;
+  /** TOTP multi-factor authentication with recovery codes and a two-step login */
+  mfa?: boolean;
+  /** OAuth2/OIDC login providers, linked to users through the Account model */
+  socialProviders?: SocialProvider[];
+  /** Per-tenant enterprise SSO (OIDC and SAML identity providers); requires multitenant */
+  sso?: boolean;
+  /** Hashed, scoped API keys accepted in the X-API-Key header */
+  apiKeys?: boolean;
+  /** Failed login counters, progressive delays and temporary lockout; requires password login */
+  loginProtection?: boolean;
+  /** Nest monorepo project to scaffold into (defaults to the nest-cli.json default project) */
+  project?: string;
   databaseUrl?: string;
   jwtSecret?: string;
 }
 
-export async function promptConfig(): Promise<AuthBPConfig> {
+export const DEFAULT_CONFIG: AuthBPConfig = {
+  database: 'supabase',
+  supabaseAuth: false,
+  whitelabel: false,
+  rbac: false,
+  multitenant: false,
+  loginMethod: 'password',
+  jwtAlgorithm: 'HS256',
+  tokenTransport: 'bearer',
+  // Opt-in: it rewrites the host's src/main.ts
+  hardenMain: false,
+  emailVerification: false,
+  mfa: false,
+  socialProviders: [],
+  sso: false,
+  apiKeys: false,
+  loginProtection: false,
+};
+
+/**
+ * Whether Supabase Auth signs users in and the scaffold only verifies the
+ * JWTs it issues (no local login, sessions or token signing)
+ */
+export function hasSupabaseAuth(config: Pick<AuthBPConfig, 'supabaseAuth'>): boolean {
+  return Boolean(config.supabaseAuth);
+}
+
+/**
+ * Whether users can sign in with a password (LoginDto, password reset)
+ */
+export function hasPasswordLogin(config: Pick<AuthBPConfig, 'loginMethod' | 'supabaseAuth'>): boolean {
+  return !hasSupabaseAuth(config) && config.loginMethod !== 'magic-link';
+}
+
+/**
+ * Whether users can sign in with an emailed magic link
+ */
+export function hasMagicLink(config: Pick<AuthBPConfig, 'loginMethod' | 'supabaseAuth'>): boolean {
+  return !hasSupabaseAuth(config) && (config.loginMethod === 'magic-link' || config.loginMethod === 'both');
+}
+
+/**
+ * Whether access tokens are signed with a private key (RS256/ES256) and
+ * verified with the published JWKS instead of a shared secret
+ */
+export function hasAsymmetricJwt(config: Pick<AuthBPConfig, 'jwtAlgorithm'>): boolean {
+  return config.jwtAlgorithm === 'RS256' || config.jwtAlgorithm === 'ES256';
+}
+
+/**
+ * Whether failed attempts are counted in a LoginAttemptStore: by login
+ * protection (password logins) and by MFA (second step codes)
+ */
+export function hasLoginAttemptStore(config: Pick<AuthBPConfig, 'loginProtection' | 'mfa'>): boolean {
+  return Boolean(config.loginProtection || config.mfa);
+}
+
+/**
+ * Whether tokens travel in httpOnly cookies (with CSRF protection) instead
+ * of the response body and the Authorization header
+ */
+export function hasCookieTransport(config: Pick<AuthBPConfig, 'tokenTransport'>): boolean {
+  return config.tokenTransport === 'cookie';
+}
+
+export interface PromptOptions {
+  /** Accept defaults for every value not supplied instead of prompting */
+  yes?: boolean;
+}
+
+/**
+ * Prompt for configuration. Values already present in `preset`
+ * (from flags or a config file) are not asked again.
+ */
+export async function promptConfig(
+  preset: Partial<AuthBPConfig> = {},
+  options: PromptOptions = {}
+): Promise<AuthBPConfig> {
+  if (options.yes) {
+    return { ...DEFAULT_CONFIG, ...preset };
+  }
+
+  const isMissing = (key: keyof AuthBPConfig) => () => preset[key] === undefined;
+  // Sign-in options only apply when the scaffold issues its own tokens
+  const isMissingLocal = (key: keyof AuthBPConfig) => (answers: Partial<AuthBPConfig>) =>
+    isMissing(key)() && !hasSupabaseAuth({ supabaseAuth: preset.supabaseAuth ?? answers.supabaseAuth });
+
   const answers = await inquirer.prompt([
     {
       type: 'list',
@@ -19,30 +147,146 @@ export async function promptConfig(): Promise<AuthBPConfig> {
         { name: 'Supabase PostgreSQL', value: 'supabase' },
         { name: 'Google Cloud SQL PostgreSQL', value: 'gcloud-sql' },
       ],
-      default: 'supabase',
+      default: DEFAULT_CONFIG.database,
+      when: isMissing('database'),
+    },
+    {
+      type: 'confirm',
+      name: 'supabaseAuth',
+      message: 'Use Supabase Auth for sign-in (verify its JWTs instead of issuing tokens)?',
+      default: DEFAULT_CONFIG.supabaseAuth,
+      prefix: '❓',
+      when: (answers: Partial<AuthBPConfig>) =>
+        isMissing('supabaseAuth')() && (preset.database ?? answers.database) === 'supabase',
     },
     {
       type: 'confirm',
       name: 'whitelabel',
       message: 'Enable Whitelabeling?',
-      default: false,
+      default: DEFAULT_CONFIG.whitelabel,
       prefix: '❓',
+      when: isMissing('whitelabel'),
     },
     {
       type: 'confirm',
       name: 'rbac',
       message: 'Enable RBAC (Role-Based Access Control)?',
-      default: false,
+      default: DEFAULT_CONFIG.rbac,
       prefix: '❓',
+      when: isMissing('rbac'),
     },
     {
       type: 'confirm',
       name: 'multitenant',
       message: 'Enable Multitenant support?',
-      default: false,
+      default: DEFAULT_CONFIG.multitenant,
+      prefix: '❓',
+      when: isMissing('multitenant'),
+    },
+    {
+      type: 'list',
+      name: 'loginMethod',
+      message: 'How do users sign in?',
+      choices: [
+        { name: 'Password', value: 'password' },
+        { name: 'Magic link (passwordless, no passwords stored)', value: 'magic-link' },
+        { name: 'Password or magic link', value: 'both' },
+      ],
+      default: DEFAULT_CONFIG.loginMethod,
+      when: isMissingLocal('loginMethod'),
+    },
+    {
+      type: 'list',
+      name: 'jwtAlgorithm',
+      message: 'How should access tokens be signed?',
+      choices: [
+        { name: 'HS256 (shared JWT_SECRET)', value: 'HS256' },
+        { name: 'RS256 (RSA key pair, JWKS endpoint)', value: 'RS256' },
+        { name: 'ES256 (P-256 key pair, JWKS endpoint)', value: 'ES256' },
+      ],
+      default: DEFAULT_CONFIG.jwtAlgorithm,
+      prefix: '❓',
+      when: isMissingLocal('jwtAlgorithm'),
+    },
+    {
+      type: 'list',
+      name: 'tokenTransport',
+      message: 'How should clients receive and send tokens?',
+      choices: [
+        { name: 'Bearer (response body and Authorization header)', value: 'bearer' },
+        { name: 'Cookies (httpOnly, with CSRF protection, for browser apps)', value: 'cookie' },
+      ],
+      default: DEFAULT_CONFIG.tokenTransport,
+      prefix: '❓',
+      when: isMissingLocal('tokenTransport'),
+    },
+    {
+      type: 'confirm',
+      name: 'hardenMain',
+      message: 'Harden src/main.ts (global ValidationPipe, CORS, helmet, auth exception filter)?',
+      default: DEFAULT_CONFIG.hardenMain,
+      prefix: '❓',
+      when: isMissing('hardenMain'),
+    },
+    {
+      type: 'confirm',
+      name: 'emailVerification',
+      message: 'Require email verification on registration?',
+      default: DEFAULT_CONFIG.emailVerification,
+      prefix: '❓',
+      when: isMissingLocal('emailVerification'),
+    },
+    {
+      type: 'confirm',
+      name: 'mfa',
+      message: 'Enable TOTP multi-factor authentication?',
+      default: DEFAULT_CONFIG.mfa,
+      prefix: '❓',
+      when: isMissingLocal('mfa'),
+    },
+    {
+      type: 'checkbox',
+      name: 'socialProviders',
+      message: 'Social login providers (space to select, enter to continue):',
+      choices: [
+        { name: 'Google', value: 'google' },
+        { name: 'GitHub', value: 'github' },
+        { name: 'Generic OpenID Connect', value: 'oidc' },
+      ],
+      default: DEFAULT_CONFIG.socialProviders,
+      prefix: '❓',
+      when: isMissingLocal('socialProviders'),
+    },
+    {
+      type: 'confirm',
+      name: 'sso',
+      message: 'Enable per-tenant enterprise SSO (OIDC and SAML)?',
+      default: DEFAULT_CONFIG.sso,
+      prefix: '❓',
+      // Identity providers belong to tenants
+      when: (answers: Partial<AuthBPConfig>) =>
+        isMissingLocal('sso')(answers) && Boolean(preset.multitenant ?? answers.multitenant),
+    },
+    {
+      type: 'confirm',
+      name: 'apiKeys',
+      message: 'Enable API keys for machine-to-machine access?',
+      default: DEFAULT_CONFIG.apiKeys,
+      prefix: '❓',
+      when: isMissingLocal('apiKeys'),
+    },
+    {
+      type: 'confirm',
+      name: 'loginProtection',
+      message: 'Enable brute-force protection on login (failed attempt limits, delays, account lockout)?',
+      default: DEFAULT_CONFIG.loginProtection,
       prefix: '❓',
+      // Only password login takes guessable credentials
+      when: (answers: Partial<AuthBPConfig>) =>
+        isMissingLocal('loginProtection')(answers) &&
+        hasPasswordLogin({ loginMethod: preset.loginMethod ?? answers.loginMethod }),
     },
   ]);
 
-  return answers as AuthBPConfig;
+  return { ...DEFAULT_CONFIG, ...preset, ...answers } as AuthBPConfig;
 }
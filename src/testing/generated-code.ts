@@ -0,0 +1,47 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * GeneratedCode
+ *
+ * Runs generated sources in tests. The files are transpiled to CommonJS in a
+ * temporary directory that links this repository's node_modules, so the
+ * packages a scaffold installs resolve to the dev dependencies. Types are not
+ * checked: `init` output is type-checked against a real host instead.
+ */
+
+export interface GeneratedCode {
+  /** require() a generated file by its path relative to the source root, without extension */
+  load<T = any>(relativePath: string): T;
+  remove(): Promise<void>;
+}
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  esModuleInterop: true,
+  experimentalDecorators: true,
+};
+
+/**
+ * Write generated sources, keyed by their path relative to the source root
+ */
+export async function writeGeneratedCode(files: Record<string, string>): Promise<GeneratedCode> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-bp-nest-'));
+  await fs.symlink(path.join(__dirname, '..', '..', 'node_modules'), path.join(dir, 'node_modules'), 'junction');
+
+  for (const [relativePath, source] of Object.entries(files)) {
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: COMPILER_OPTIONS,
+      fileName: relativePath,
+    });
+    await fs.outputFile(path.join(dir, relativePath.replace(/\.ts$/, '.js')), outputText);
+  }
+
+  return {
+    load: (relativePath) => require(path.join(dir, relativePath)),
+    remove: () => fs.remove(dir),
+  };
+}
@@ -0,0 +1,69 @@
+import { assertKnownFlags, parseArgs } from './args';
+
+describe('parseArgs', () => {
+  it('splits the command from its positionals', () => {
+    expect(parseArgs(['add', 'rbac'])).toEqual({
+      command: 'add',
+      positionals: ['rbac'],
+      flags: {},
+    });
+  });
+
+  it('parses boolean, negated and inline value flags', () => {
+    const { flags } = parseArgs(['init', '--rbac', '--no-mfa', '--database=supabase']);
+
+    expect(flags).toEqual({ rbac: true, mfa: false, database: 'supabase' });
+  });
+
+  it('takes the next argument for value flags only', () => {
+    expect(parseArgs(['init', '--database', 'supabase'], ['database'])).toEqual({
+      command: 'init',
+      positionals: [],
+      flags: { database: 'supabase' },
+    });
+    expect(parseArgs(['init', '--database', 'supabase'])).toEqual({
+      command: 'init',
+      positionals: ['supabase'],
+      flags: { database: true },
+    });
+  });
+
+  it('rejects a value flag without a value', () => {
+    expect(() => parseArgs(['init', '--database'], ['database'])).toThrow(
+      'Option --database requires a value'
+    );
+    expect(() => parseArgs(['init', '--database', '--rbac'], ['database'])).toThrow(
+      'Option --database requires a value'
+    );
+  });
+
+  it('expands -y and rejects unknown short flags', () => {
+    expect(parseArgs(['init', '-y']).flags).toEqual({ yes: true });
+    expect(() => parseArgs(['init', '-x'])).toThrow('Unknown option -x');
+  });
+
+  it('treats everything after -- as positionals', () => {
+    expect(parseArgs(['init', '--', '--rbac', '-y'])).toEqual({
+      command: 'init',
+      positionals: ['--rbac', '-y'],
+      flags: {},
+    });
+  });
+});
+
+describe('assertKnownFlags', () => {
+  it('accepts supported flags', () => {
+    expect(() =>
+      assertKnownFlags(parseArgs(['init', '--rbac', '-y']), ['rbac', 'yes'], 'init')
+    ).not.toThrow();
+  });
+
+  it('names the unknown flag and the supported ones', () => {
+    expect(() => assertKnownFlags(parseArgs(['add', '--rbca']), ['dry-run'], 'add')).toThrow(
+      'Unknown option --rbca for "add". Supported options: --dry-run'
+    );
+    expect(() => assertKnownFlags(parseArgs(['status', '--all']), [], 'status')).toThrow(
+      'Unknown option --all for "status". It takes no options'
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Minimal argv parser for the CLI.
+ *
+ * Supports `--flag`, `--no-flag`, `--flag=value`, `--flag value` (for flags
+ * declared as value flags) and the short `-y` alias for `--yes`.
+ */
+
+export interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const SHORT_FLAGS: Record<string, string> = {
+  y: 'yes',
+};
+
+/**
+ * Parse raw CLI arguments into a command, positionals and flags
+ */
+export function parseArgs(argv: string[], valueFlags: string[] = []): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const body = arg.slice(2);
+      const eqIndex = body.indexOf('=');
+
+      if (eqIndex !== -1) {
+        flags[body.slice(0, eqIndex)] = body.slice(eqIndex + 1);
+      } else if (valueFlags.includes(body)) {
+        const value = argv[i + 1];
+        if (value === undefined || value.startsWith('-')) {
+          throw new Error(`Option --${body} requires a value`);
+        }
+        flags[body] = value;
+        i++;
+      } else if (body.startsWith('no-')) {
+        flags[body.slice(3)] = false;
+      } else {
+        flags[body] = true;
+      }
+      continue;
+    }
+
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (const short of arg.slice(1)) {
+        const name = SHORT_FLAGS[short];
+        if (!name) {
+          throw new Error(`Unknown option -${short}`);
+        }
+        flags[name] = true;
+      }
+      continue;
+    }
+
+    positionals.push(arg);
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, flags };
+}
+
+/**
+ * Throw if any flag is not in the list of supported flags for a command
+ */
+export function assertKnownFlags(
+  args: ParsedArgs,
+  knownFlags: string[],
+  command: string
+): void {
+  for (const name of Object.keys(args.flags)) {
+    if (!knownFlags.includes(name)) {
+      const supported =
+        knownFlags.length > 0
+          ? `Supported options: ${knownFlags.map((flag) => `--${flag}`).join(', ')}`
+          : 'It takes no options';
+      throw new Error(`Unknown option --${name} for "${command}". ${supported}`);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import * as ts from 'typescript';
+
+/**
+ * AstEditor
+ *
+ * Locates nodes in a TypeScript source file with the compiler API and applies
+ * plain text insertions at those positions, so everything the editor does not
+ * touch keeps its original formatting.
+ */
+
+interface Insertion {
+  pos: number;
+  text: string;
+}
+
+export class SourceEditor {
+  readonly sourceFile: ts.SourceFile;
+  private insertions: Insertion[] = [];
+  private pendingImports = new Map<string, string[]>();
+
+  constructor(readonly fileName: string, readonly text: string) {
+    this.sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+  }
+
+  /**
+   * Queue text to insert at a position. Insertions at the same position are
+   * kept in the order they were queued.
+   */
+  insert(pos: number, text: string): void {
+    const existing = this.insertions.find((insertion) => insertion.pos === pos);
+    if (existing) {
+      existing.text += text;
+    } else {
+      this.insertions.push({ pos, text });
+    }
+  }
+
+  hasChanges(): boolean {
+    return this.insertions.length > 0 || this.pendingImports.size > 0;
+  }
+
+  apply(): string {
+    this.flushImports();
+
+    let result = this.text;
+    const ordered = [...this.insertions].sort((a, b) => b.pos - a.pos);
+    for (const { pos, text } of ordered) {
+      result = result.slice(0, pos) + text + result.slice(pos);
+    }
+    return result;
+  }
+
+  /**
+   * Leading whitespace of the line containing a position
+   */
+  indentationAt(pos: number): string {
+    const lineStart = this.text.lastIndexOf('\n', pos - 1) + 1;
+    const match = /^[ \t]*/.exec(this.text.slice(lineStart));
+    return match ? match[0] : '';
+  }
+
+  /**
+   * Indentation unit used by the file (defaults to two spaces)
+   */
+  indentUnit(): string {
+    const match = /\n(\t+|[ ]+)\S/.exec(this.text);
+    if (!match) {
+      return '  ';
+    }
+    return match[1].startsWith('\t') ? '\t' : match[1].length >= 4 ? '    ' : '  ';
+  }
+
+  /**
+   * Ensure `import { name } from 'specifier'` exists, adding the named import
+   * to an existing import of the same module when there is one
+   */
+  ensureNamedImport(name: string, specifier: string): void {
+    const pending = this.pendingImports.get(specifier) ?? [];
+    if (pending.includes(name)) {
+      return;
+    }
+
+    const bindings = this.findNamedImports(specifier);
+    if (bindings?.elements.some((element) => element.name.text === name)) {
+      return;
+    }
+
+    this.pendingImports.set(specifier, [...pending, name]);
+  }
+
+  private flushImports(): void {
+    const imports = this.sourceFile.statements.filter(ts.isImportDeclaration);
+    const quote = this.detectQuote();
+    const newStatements: string[] = [];
+
+    for (const [specifier, names] of this.pendingImports) {
+      const bindings = this.findNamedImports(specifier);
+
+      if (!bindings) {
+        newStatements.push(`import { ${names.join(', ')} } from ${quote}${specifier}${quote};`);
+      } else if (bindings.elements.length > 0) {
+        const last = bindings.elements[bindings.elements.length - 1];
+        this.insert(last.getEnd(), names.map((name) => `, ${name}`).join(''));
+      } else {
+        this.insert(bindings.getStart() + 1, ` ${names.join(', ')} `);
+      }
+    }
+
+    if (newStatements.length > 0) {
+      const lastImport = imports[imports.length - 1];
+      if (lastImport) {
+        this.insert(lastImport.getEnd(), newStatements.map((statement) => `\n${statement}`).join(''));
+      } else {
+        this.insert(0, newStatements.map((statement) => `${statement}\n`).join(''));
+      }
+    }
+
+    this.pendingImports.clear();
+  }
+
+  /**
+   * Append elements to an array literal, following its single- or multi-line layout
+   */
+  appendToArray(array: ts.ArrayLiteralExpression, elements: string[]): void {
+    if (elements.length === 0) {
+      return;
+    }
+
+    const existing = array.elements;
+    if (existing.length === 0) {
+      this.insert(array.getStart() + 1, elements.join(', '));
+      return;
+    }
+
+    const last = existing[existing.length - 1];
+    const multiline = isOnDifferentLine(this.sourceFile, array.getStart(), last.getStart());
+
+    if (!multiline) {
+      this.insert(last.getEnd(), `, ${elements.join(', ')}`);
+      return;
+    }
+
+    const indent = this.indentationAt(last.getStart());
+    if (existing.hasTrailingComma) {
+      const commaEnd = this.text.indexOf(',', last.getEnd()) + 1;
+      this.insert(commaEnd, elements.map((element) => `\n${indent}${element},`).join(''));
+    } else {
+      this.insert(last.getEnd(), elements.map((element) => `,\n${indent}${element}`).join(''));
+    }
+  }
+
+  /**
+   * Add a `name: [elements]` property to an object literal
+   */
+  addArrayProperty(object: ts.ObjectLiteralExpression, name: string, elements: string[]): void {
+    const properties = object.properties;
+    const value = `${name}: [${elements.join(', ')}]`;
+
+    if (properties.length === 0) {
+      const indent = this.indentationAt(object.getStart()) + this.indentUnit();
+      const closingIndent = this.indentationAt(object.getStart());
+      this.insert(object.getStart() + 1, `\n${indent}${value},\n${closingIndent}`);
+      return;
+    }
+
+    const last = properties[properties.length - 1];
+    const indent = this.indentationAt(last.getStart());
+    if (properties.hasTrailingComma) {
+      const commaEnd = this.text.indexOf(',', last.getEnd()) + 1;
+      this.insert(commaEnd, `\n${indent}${value},`);
+    } else {
+      this.insert(last.getEnd(), `,\n${indent}${value}`);
+    }
+  }
+
+  private findNamedImports(specifier: string): ts.NamedImports | undefined {
+    for (const statement of this.sourceFile.statements) {
+      if (
+        ts.isImportDeclaration(statement) &&
+        (statement.moduleSpecifier as ts.StringLiteral).text === specifier
+      ) {
+        const bindings = statement.importClause?.namedBindings;
+        if (bindings && ts.isNamedImports(bindings)) {
+          return bindings;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private detectQuote(): string {
+    const firstImport = this.sourceFile.statements.find(ts.isImportDeclaration);
+    return firstImport && firstImport.moduleSpecifier.getText(this.sourceFile).startsWith('"')
+      ? '"'
+      : "'";
+  }
+}
+
+function isOnDifferentLine(sourceFile: ts.SourceFile, a: number, b: number): boolean {
+  return (
+    sourceFile.getLineAndCharacterOfPosition(a).line !==
+    sourceFile.getLineAndCharacterOfPosition(b).line
+  );
+}
+
+/**
+ * Find a property assignment by name in an object literal
+ */
+export function findProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): ts.PropertyAssignment | undefined {
+  return object.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name
+  );
+}
+
+/**
+ * Find the decorator call `@name(...)` on a class
+ */
+export function findClassDecorator(
+  node: ts.ClassDeclaration,
+  name: string
+): ts.CallExpression | undefined {
+  for (const decorator of ts.getDecorators(node) ?? []) {
+    const expression = decorator.expression;
+    if (
+      ts.isCallExpression(expression) &&
+      ts.isIdentifier(expression.expression) &&
+      expression.expression.text === name
+    ) {
+      return expression;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,105 @@
+import { SOCIAL_PROVIDER_CHOICES } from '../prompts';
+import {
+  fromFlagName,
+  normalizeConfig,
+  parseBoolean,
+  parseChoiceList,
+  toFlagName,
+} from './config-validator';
+
+const asFlag = (key: string) => `--${toFlagName(key)}`;
+
+describe('flag names', () => {
+  it('converts between config keys and flags', () => {
+    expect(toFlagName('hardenMain')).toBe('harden-main');
+    expect(fromFlagName('login-protection')).toBe('loginProtection');
+  });
+});
+
+describe('parseBoolean', () => {
+  it('accepts booleans and the usual spellings', () => {
+    expect(parseBoolean(true, '--rbac')).toBe(true);
+    expect(parseBoolean(' Yes ', '--rbac')).toBe(true);
+    expect(parseBoolean('off', '--rbac')).toBe(false);
+  });
+
+  it('names the source of an invalid value', () => {
+    expect(() => parseBoolean('maybe', '--rbac')).toThrow(
+      'Invalid value for --rbac: "maybe". Expected true or false'
+    );
+  });
+});
+
+describe('parseChoiceList', () => {
+  it('splits and trims a comma-separated flag value', () => {
+    expect(parseChoiceList('google, oidc', SOCIAL_PROVIDER_CHOICES, '--social-providers')).toEqual([
+      'google',
+      'oidc',
+    ]);
+  });
+
+  it('accepts a JSON array and drops duplicates', () => {
+    expect(
+      parseChoiceList(['github', 'github', 'google'], SOCIAL_PROVIDER_CHOICES, 'socialProviders')
+    ).toEqual(['github', 'google']);
+  });
+
+  it('reads --no-<flag> and an empty value as an empty list', () => {
+    expect(parseChoiceList(false, SOCIAL_PROVIDER_CHOICES, '--social-providers')).toEqual([]);
+    expect(parseChoiceList('', SOCIAL_PROVIDER_CHOICES, '--social-providers')).toEqual([]);
+  });
+
+  it('rejects unknown choices and non-lists', () => {
+    expect(() =>
+      parseChoiceList('google,facebook', SOCIAL_PROVIDER_CHOICES, '--social-providers')
+    ).toThrow('Invalid value for --social-providers: "facebook". Expected one of: google, github, oidc');
+    expect(() => parseChoiceList(3, SOCIAL_PROVIDER_CHOICES, 'socialProviders')).toThrow(
+      'Invalid value for socialProviders: 3. Expected a list of: google, github, oidc'
+    );
+  });
+});
+
+describe('normalizeConfig', () => {
+  it('parses every kind of value and skips undefined ones', () => {
+    expect(
+      normalizeConfig(
+        {
+          database: 'supabase',
+          project: ' api ',
+          loginMethod: 'both',
+          jwtAlgorithm: 'ES256',
+          tokenTransport: 'cookie',
+          socialProviders: 'github',
+          rbac: 'true',
+          mfa: false,
+          sso: undefined,
+        },
+        asFlag
+      )
+    ).toEqual({
+      database: 'supabase',
+      project: 'api',
+      loginMethod: 'both',
+      jwtAlgorithm: 'ES256',
+      tokenTransport: 'cookie',
+      socialProviders: ['github'],
+      rbac: true,
+      mfa: false,
+    });
+  });
+
+  it('describes the failing key with the given function', () => {
+    expect(() => normalizeConfig({ loginMethod: 'sms' }, asFlag)).toThrow(
+      'Invalid value for --login-method: "sms". Expected one of: password, magic-link, both'
+    );
+    expect(() => normalizeConfig({ project: '  ' }, (key) => `"${key}" in the config file`)).toThrow(
+      'Invalid value for "project" in the config file: "  ". Expected a non-empty string'
+    );
+  });
+
+  it('rejects unknown keys', () => {
+    expect(() => normalizeConfig({ oauth: true }, asFlag)).toThrow(
+      'Unknown configuration key --oauth. Supported keys: database, project'
+    );
+  });
+});
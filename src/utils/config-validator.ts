@@ -0,0 +1,181 @@
+import {
+  AuthBPConfig,
+  DATABASE_CHOICES,
+  JWT_ALGORITHM_CHOICES,
+  LOGIN_METHOD_CHOICES,
+  SOCIAL_PROVIDER_CHOICES,
+  TOKEN_TRANSPORT_CHOICES,
+} from '../prompts';
+
+/**
+ * ConfigValidator
+ *
+ * Normalizes configuration values coming from CLI flags or a config file into
+ * a partial AuthBPConfig. Invalid values fail with a message naming the source.
+ */
+
+const BOOLEAN_KEYS = [
+  'supabaseAuth',
+  'whitelabel',
+  'rbac',
+  'multitenant',
+  'hardenMain',
+  'emailVerification',
+  'mfa',
+  'sso',
+  'apiKeys',
+  'loginProtection',
+] as const;
+
+export const CONFIG_KEYS = [
+  'database',
+  'project',
+  'loginMethod',
+  'jwtAlgorithm',
+  'tokenTransport',
+  'socialProviders',
+  ...BOOLEAN_KEYS,
+] as const;
+
+/**
+ * CLI flag name for a config key (hardenMain -> harden-main)
+ */
+export function toFlagName(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Config key for a CLI flag name (harden-main -> hardenMain)
+ */
+export function fromFlagName(flag: string): string {
+  return flag.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Parse a boolean from a flag or JSON value
+ */
+export function parseBoolean(value: unknown, source: string): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes', 'y', '1', 'on'].includes(normalized)) {
+      return true;
+    }
+    if (['false', 'no', 'n', '0', 'off'].includes(normalized)) {
+      return false;
+    }
+  }
+
+  throw new Error(`Invalid value for ${source}: ${JSON.stringify(value)}. Expected true or false`);
+}
+
+/**
+ * Parse a value that must be one of a fixed set of choices
+ */
+export function parseChoice<T extends string>(
+  value: unknown,
+  choices: readonly T[],
+  source: string
+): T {
+  if (typeof value === 'string' && (choices as readonly string[]).includes(value)) {
+    return value as T;
+  }
+
+  throw new Error(
+    `Invalid value for ${source}: ${JSON.stringify(value)}. Expected one of: ${choices.join(', ')}`
+  );
+}
+
+/**
+ * Parse a list of choices from a JSON array or a comma-separated flag value.
+ * `false` (from --no-<flag>) and an empty string mean an empty list.
+ */
+export function parseChoiceList<T extends string>(
+  value: unknown,
+  choices: readonly T[],
+  source: string
+): T[] {
+  if (value === false || value === '') {
+    return [];
+  }
+
+  const items =
+    typeof value === 'string' ? value.split(',').map((item) => item.trim()) : value;
+  if (!Array.isArray(items)) {
+    throw new Error(
+      `Invalid value for ${source}: ${JSON.stringify(value)}. Expected a list of: ${choices.join(', ')}`
+    );
+  }
+
+  return [...new Set(items.map((item) => parseChoice(item, choices, source)))];
+}
+
+/**
+ * Parse a non-empty string
+ */
+export function parseString(value: unknown, source: string): string {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+
+  throw new Error(`Invalid value for ${source}: ${JSON.stringify(value)}. Expected a non-empty string`);
+}
+
+/**
+ * Normalize a raw key/value map into a partial config.
+ * `describe` turns a key into a human readable source (e.g. `--rbac`).
+ */
+export function normalizeConfig(
+  raw: Record<string, unknown>,
+  describe: (key: string) => string
+): Partial<AuthBPConfig> {
+  const config: Partial<AuthBPConfig> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (key) {
+      case 'database':
+        config.database = parseChoice(value, DATABASE_CHOICES, describe(key));
+        break;
+      case 'project':
+        config.project = parseString(value, describe(key));
+        break;
+      case 'loginMethod':
+        config.loginMethod = parseChoice(value, LOGIN_METHOD_CHOICES, describe(key));
+        break;
+      case 'jwtAlgorithm':
+        config.jwtAlgorithm = parseChoice(value, JWT_ALGORITHM_CHOICES, describe(key));
+        break;
+      case 'tokenTransport':
+        config.tokenTransport = parseChoice(value, TOKEN_TRANSPORT_CHOICES, describe(key));
+        break;
+      case 'socialProviders':
+        config.socialProviders = parseChoiceList(value, SOCIAL_PROVIDER_CHOICES, describe(key));
+        break;
+      case 'supabaseAuth':
+      case 'whitelabel':
+      case 'rbac':
+      case 'multitenant':
+      case 'hardenMain':
+      case 'emailVerification':
+      case 'mfa':
+      case 'sso':
+      case 'apiKeys':
+      case 'loginProtection':
+        config[key] = parseBoolean(value, describe(key));
+        break;
+      default:
+        throw new Error(
+          `Unknown configuration key ${describe(key)}. Supported keys: ${CONFIG_KEYS.join(', ')}`
+        );
+    }
+  }
+
+  return config;
+}
@@ -0,0 +1,33 @@
+import { mergeThreeWay } from './conflict-resolver';
+
+const BASE = ['import a;', '', 'function one() {}', '', 'function two() {}', '', 'function three() {}', ''].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('applies the generated changes onto the user edits', () => {
+    const generated = BASE.replace('function three() {}', 'function three(x) {}');
+    const existing = BASE.replace('import a;', 'import a;\nimport mine;');
+
+    expect(mergeThreeWay(BASE, generated, existing)).toBe(
+      BASE.replace('import a;', 'import a;\nimport mine;').replace('function three() {}', 'function three(x) {}')
+    );
+  });
+
+  it('returns the generated version when the user changed nothing', () => {
+    const generated = BASE.replace('function two() {}', 'function two() {\n  return 2;\n}');
+
+    expect(mergeThreeWay(BASE, generated, BASE)).toBe(generated);
+  });
+
+  it('keeps the user edits when the generator changed nothing', () => {
+    const existing = BASE.replace('function one() {}', 'function one() {\n  log();\n}');
+
+    expect(mergeThreeWay(BASE, BASE, existing)).toBe(existing);
+  });
+
+  it('returns null when both sides changed the same lines', () => {
+    const generated = BASE.replace('function two() {}', 'function two(a) {}');
+    const existing = BASE.replace('function two() {}', 'function two(b) {}');
+
+    expect(mergeThreeWay(BASE, generated, existing)).toBeNull();
+  });
+});
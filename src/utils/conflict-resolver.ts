@@ -0,0 +1,127 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { applyPatch, createTwoFilesPatch, structuredPatch } from 'diff';
+
+/**
+ * ConflictResolver
+ *
+ * Decides what happens when the generator is about to replace an existing
+ * file whose content differs from what it wants to write.
+ */
+
+export type ConflictPolicy = 'prompt' | 'overwrite' | 'skip' | 'merge';
+
+export type ConflictResolution = 'overwrite' | 'skip' | 'new-file' | 'merge';
+
+export interface ConflictDetails {
+  relativePath: string;
+  existing: string;
+  generated: string;
+  /** Content of the last generated version, if one was recorded */
+  base: string | null;
+}
+
+/**
+ * Pick a resolution for a conflicting write according to the active policy
+ */
+export async function resolveConflict(
+  details: ConflictDetails,
+  policy: ConflictPolicy
+): Promise<ConflictResolution> {
+  if (policy !== 'prompt') {
+    return policy;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `${details.relativePath} already exists and differs from the generated version. ` +
+        'Re-run with --force to overwrite or --no-overwrite to keep existing files'
+    );
+  }
+
+  const choices = [
+    { name: 'Overwrite with the generated version', value: 'overwrite' },
+    { name: 'Skip (keep my version)', value: 'skip' },
+    { name: `Write the generated version to ${details.relativePath}.new`, value: 'new-file' },
+    ...(details.base !== null
+      ? [{ name: 'Three-way merge with the last generated version', value: 'merge' }]
+      : []),
+    { name: 'Show diff', value: 'diff' },
+  ];
+
+  for (;;) {
+    const { resolution } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'resolution',
+        message: `${details.relativePath} has been modified. What should be done?`,
+        choices,
+        prefix: '⚠️ ',
+      },
+    ]);
+
+    if (resolution !== 'diff') {
+      return resolution as ConflictResolution;
+    }
+
+    console.log(
+      createTwoFilesPatch(
+        `a/${details.relativePath}`,
+        `b/${details.relativePath}`,
+        details.existing,
+        details.generated
+      )
+    );
+  }
+}
+
+/**
+ * Pick resolutions for every conflicting write of a run before any is
+ * applied. Without a terminal to ask, the prompt policy fails naming them all.
+ */
+export async function resolveConflicts(
+  conflicts: ConflictDetails[],
+  policy: ConflictPolicy
+): Promise<ConflictResolution[]> {
+  if (policy === 'prompt' && conflicts.length > 0 && !process.stdin.isTTY) {
+    const files = conflicts.map((conflict) => `  - ${conflict.relativePath}`).join('\n');
+    throw new Error(
+      `These files differ from the generated version:\n${files}\n` +
+        'Nothing was written. Re-run with --force to overwrite or --no-overwrite to keep existing files'
+    );
+  }
+
+  const resolutions: ConflictResolution[] = [];
+  for (const conflict of conflicts) {
+    resolutions.push(await resolveConflict(conflict, policy));
+  }
+  return resolutions;
+}
+
+/**
+ * Three-way merge: apply the changes between the last generated version (base)
+ * and the new generated version onto the user's current file.
+ * Returns null when the changes overlap with the user's edits.
+ */
+export function mergeThreeWay(
+  base: string,
+  generated: string,
+  existing: string
+): string | null {
+  const patch = structuredPatch('base', 'generated', base, generated);
+  const merged = applyPatch(existing, patch);
+  return merged === false ? null : merged;
+}
+
+export function describeResolution(resolution: ConflictResolution, relativePath: string): string {
+  switch (resolution) {
+    case 'overwrite':
+      return chalk.yellow(`↻ Overwrote modified file: ${relativePath}`);
+    case 'skip':
+      return chalk.gray(`↷ Skipped modified file: ${relativePath}`);
+    case 'new-file':
+      return chalk.cyan(`✎ Wrote generated version to ${relativePath}.new`);
+    case 'merge':
+      return chalk.green(`⇄ Merged generated changes into ${relativePath}`);
+  }
+}
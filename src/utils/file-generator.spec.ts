@@ -0,0 +1,166 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConflictPolicy } from './conflict-resolver';
+import {
+  finishDryRun,
+  markLegacy,
+  removeFile,
+  setWriteOptions,
+  stageWrites,
+  startDryRun,
+  writeFile,
+} from './file-generator';
+
+const GENERATED = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n';
+
+let projectRoot: string;
+let isTTY: boolean | undefined;
+
+const file = (name: string) => path.join(projectRoot, name);
+const read = (name: string) => fs.readFile(file(name), 'utf8');
+
+/**
+ * Generate a.txt, b.txt and c.txt, then edit the first two the way a user would
+ */
+async function scaffoldAndEdit(): Promise<void> {
+  setWriteOptions({ projectRoot, conflictPolicy: 'overwrite' });
+  await writeFile(file('a.txt'), GENERATED);
+  await writeFile(file('b.txt'), GENERATED);
+  await writeFile(file('c.txt'), GENERATED);
+  await fs.writeFile(file('a.txt'), GENERATED.replace('one', 'ONE'));
+  await fs.writeFile(file('b.txt'), GENERATED.replace('seven', 'SEVEN'));
+}
+
+/**
+ * The next generator version: changes every file near its end
+ */
+async function regenerate(): Promise<void> {
+  const next = GENERATED.replace('six', 'six and a half');
+  await writeFile(file('a.txt'), next);
+  await writeFile(file('b.txt'), next);
+  await writeFile(file('c.txt'), next);
+  await writeFile(file('d.txt'), 'new\n');
+}
+
+beforeEach(async () => {
+  projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-bp-nest-'));
+  isTTY = process.stdin.isTTY;
+  process.stdin.isTTY = false;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  process.stdin.isTTY = isTTY as boolean;
+  jest.restoreAllMocks();
+  await fs.remove(projectRoot);
+});
+
+describe('stageWrites', () => {
+  it('writes nothing when a conflict cannot be resolved without a terminal', async () => {
+    await scaffoldAndEdit();
+    setWriteOptions({ projectRoot, conflictPolicy: 'prompt' });
+
+    await expect(stageWrites(regenerate)).rejects.toThrow(
+      'These files differ from the generated version:\n  - a.txt\n  - b.txt\nNothing was written'
+    );
+
+    expect(await read('a.txt')).toBe(GENERATED.replace('one', 'ONE'));
+    expect(await read('c.txt')).toBe(GENERATED);
+    expect(await fs.pathExists(file('d.txt'))).toBe(false);
+  });
+
+  it('applies the policy to every conflict and writes the rest', async () => {
+    await scaffoldAndEdit();
+    setWriteOptions({ projectRoot, conflictPolicy: 'merge' });
+
+    await stageWrites(regenerate);
+
+    // The edit away from the change merges, the one next to it does not
+    expect(await read('a.txt')).toBe(GENERATED.replace('one', 'ONE').replace('six', 'six and a half'));
+    expect(await read('b.txt')).toBe(GENERATED.replace('seven', 'SEVEN'));
+    expect(await read('b.txt.new')).toBe(GENERATED.replace('six', 'six and a half'));
+    expect(await read('c.txt')).toBe(GENERATED.replace('six', 'six and a half'));
+    expect(await read('d.txt')).toBe('new\n');
+  });
+});
+
+describe('dry run', () => {
+  const plan = async (policy: ConflictPolicy) => {
+    setWriteOptions({ projectRoot, conflictPolicy: policy });
+    startDryRun();
+    await regenerate();
+    const planned = await finishDryRun();
+    return Object.fromEntries(planned.map((entry) => [path.basename(entry.filePath), entry.change]));
+  };
+
+  beforeEach(scaffoldAndEdit);
+
+  it('labels modified files with what the policy does to them', async () => {
+    expect(await plan('prompt')).toEqual({
+      'a.txt': 'conflict',
+      'b.txt': 'conflict',
+      'c.txt': 'update',
+      'd.txt': 'create',
+    });
+    expect(await plan('skip')).toMatchObject({ 'a.txt': 'skip', 'b.txt': 'skip' });
+    expect(await plan('overwrite')).toMatchObject({ 'a.txt': 'overwrite', 'b.txt': 'overwrite' });
+    expect(await plan('merge')).toMatchObject({ 'a.txt': 'merge', 'b.txt': 'new-file' });
+  });
+
+  it('writes nothing', async () => {
+    await plan('overwrite');
+
+    expect(await read('a.txt')).toBe(GENERATED.replace('one', 'ONE'));
+    expect(await fs.pathExists(file('d.txt'))).toBe(false);
+  });
+});
+
+describe('removeFile', () => {
+  it('deletes an untouched generated file and keeps an edited one', async () => {
+    await scaffoldAndEdit();
+
+    expect(await removeFile(file('a.txt'))).toBe(false);
+    expect(await removeFile(file('c.txt'))).toBe(true);
+
+    expect(await fs.pathExists(file('a.txt'))).toBe(true);
+    expect(await fs.pathExists(file('c.txt'))).toBe(false);
+    const manifest = await fs.readJson(file('.auth-bp-manifest.json'));
+    expect(Object.keys(manifest.files)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('deletes a file still holding its legacy content', async () => {
+    await fs.writeFile(file('old.txt'), 'legacy\n');
+    setWriteOptions({ projectRoot, conflictPolicy: 'prompt' });
+    markLegacy(file('old.txt'), 'legacy\n');
+
+    expect(await removeFile(file('old.txt'))).toBe(true);
+    expect(await fs.pathExists(file('old.txt'))).toBe(false);
+  });
+});
+
+describe('markLegacy', () => {
+  const LEGACY = GENERATED.replace('seven', 'legacy seven');
+
+  beforeEach(() => {
+    setWriteOptions({ projectRoot, conflictPolicy: 'merge' });
+    markLegacy(file('a.txt'), LEGACY);
+  });
+
+  it('replaces a file that still holds the legacy content', async () => {
+    await fs.writeFile(file('a.txt'), LEGACY);
+
+    await stageWrites(() => writeFile(file('a.txt'), GENERATED));
+
+    expect(await read('a.txt')).toBe(GENERATED);
+    expect(await fs.pathExists(file('a.txt.new'))).toBe(false);
+  });
+
+  it('merges edits against the legacy content', async () => {
+    await fs.writeFile(file('a.txt'), LEGACY.replace('one', 'ONE'));
+
+    await stageWrites(() => writeFile(file('a.txt'), GENERATED));
+
+    expect(await read('a.txt')).toBe(GENERATED.replace('one', 'ONE'));
+  });
+});
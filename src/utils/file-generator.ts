@@ -1,5 +1,23 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import chalk from 'chalk';
+import { createTwoFilesPatch } from 'diff';
+import {
+  ConflictDetails,
+  ConflictPolicy,
+  ConflictResolution,
+  resolveConflict,
+  resolveConflicts,
+  mergeThreeWay,
+  describeResolution,
+} from './conflict-resolver';
+import {
+  Manifest,
+  loadManifest,
+  saveManifest,
+  hashContent,
+  toManifestPath,
+} from './manifest';
 
 export interface GeneratorOptions {
   projectRoot: string;
@@ -12,24 +30,532 @@ export interface GeneratorOptions {
   templatesDir: string;
 }
 
+/**
+ * What a planned write does. A file the user modified is not simply updated:
+ * the conflict policy decides (`conflict` when it would ask). `delete` is a
+ * generated file that is no longer produced.
+ */
+export type PlannedChange =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'overwrite'
+  | 'merge'
+  | 'new-file'
+  | 'skip'
+  | 'conflict'
+  | 'delete';
+
+export interface PlannedFile {
+  filePath: string;
+  change: PlannedChange;
+  previousContent: string | null;
+  /** Generated content, or the merge result for a planned merge */
+  content: string;
+  tracked: boolean;
+}
+
+export interface WriteOptions {
+  /** Project root; enables snapshots of generated files for three-way merges */
+  projectRoot?: string;
+  /** What to do when an existing file differs from the generated content */
+  conflictPolicy?: ConflictPolicy;
+}
+
+export interface WriteFileOptions {
+  /**
+   * Tracked files are generator output: they get conflict detection, a
+   * snapshot of the generated content and a manifest entry. Untracked files
+   * (tool state) are always written as-is.
+   */
+  tracked?: boolean;
+}
+
+/**
+ * Directory (relative to the project root) holding the last generated
+ * version of every tracked file, used as the base for three-way merges
+ */
+export const SNAPSHOT_DIR = path.join('.auth-bp', 'generated');
+
+export interface ConflictRecord {
+  filePath: string;
+  resolution: ConflictResolution;
+}
+
+let writeOptions: WriteOptions = {};
+
+/**
+ * Conflicts resolved since the last setWriteOptions call
+ */
+let conflictLog: ConflictRecord[] = [];
+
+/**
+ * Files another tool (the Nest CLI) created during this run. Their content is
+ * that tool's boilerplate, so writing over them is not a conflict.
+ */
+let scaffoldedFiles = new Set<string>();
+
+/**
+ * Content written by generator versions from before the manifest, keyed by
+ * absolute path
+ */
+let legacyContent = new Map<string, string>();
+
+/**
+ * Manifest for the configured project root, loaded on first tracked write
+ */
+let manifest: Manifest | null = null;
+
+/**
+ * Files recorded while a dry run or a staged run is active, keyed by absolute
+ * path. When null, writes go straight to disk.
+ */
+let activePlan: Map<string, PlannedFile> | null = null;
+
+/**
+ * Whether the active plan is written once the run completes (a staged run)
+ */
+let staged = false;
+
+/**
+ * Directories and external steps (the Nest CLI) held back by a staged run
+ */
+let plannedDirs = new Set<string>();
+let deferredSteps: Array<() => Promise<void>> = [];
+
+/**
+ * Start recording writes in memory instead of touching the filesystem
+ */
+export function startDryRun(): void {
+  activePlan = new Map();
+}
+
+/**
+ * Stop recording and return the planned files in write order, each labelled
+ * with what the conflict policy would do to it
+ */
+export async function finishDryRun(): Promise<PlannedFile[]> {
+  const plan = activePlan ? Array.from(activePlan.values()) : [];
+  activePlan = null;
+
+  const policy = writeOptions.conflictPolicy ?? 'prompt';
+  for (const file of plan) {
+    const conflict = file.change === 'delete' ? null : await findConflict(file);
+    if (!conflict) {
+      continue;
+    }
+
+    if (policy === 'prompt') {
+      file.change = 'conflict';
+    } else if (policy === 'merge') {
+      const merged = conflict.base === null ? null : mergeThreeWay(conflict.base, file.content, conflict.existing);
+      if (merged === null) {
+        file.change = 'new-file';
+      } else {
+        // Edits that already hold everything the generator changed
+        file.change = merged === conflict.existing ? 'unchanged' : 'merge';
+      }
+      file.content = merged ?? file.content;
+    } else {
+      file.change = policy;
+    }
+  }
+  return plan;
+}
+
+export function isDryRun(): boolean {
+  return activePlan !== null && !staged;
+}
+
+/**
+ * Run a generator with its writes held in memory, then settle every conflict
+ * (asking, or failing under the prompt policy without a terminal) before the
+ * first file is written. A run that fails leaves the project untouched.
+ * Inside a dry run or another staged run, the writes join that one.
+ */
+export async function stageWrites<T>(generate: () => Promise<T>): Promise<T> {
+  if (activePlan) {
+    return generate();
+  }
+
+  activePlan = new Map();
+  staged = true;
+  let plan: PlannedFile[];
+  let dirs: string[];
+  let steps: Array<() => Promise<void>>;
+  let result: T;
+  try {
+    result = await generate();
+  } finally {
+    plan = Array.from(activePlan.values());
+    dirs = Array.from(plannedDirs);
+    steps = deferredSteps;
+    activePlan = null;
+    staged = false;
+    plannedDirs = new Set();
+    deferredSteps = [];
+  }
+
+  const conflicts: ConflictDetails[] = [];
+  const conflictingFiles: PlannedFile[] = [];
+  for (const file of plan) {
+    const conflict = file.change === 'delete' ? null : await findConflict(file);
+    if (conflict) {
+      conflicts.push(conflict);
+      conflictingFiles.push(file);
+    }
+  }
+  const resolutions = await resolveConflicts(conflicts, writeOptions.conflictPolicy ?? 'prompt');
+
+  for (const step of steps) {
+    await step();
+  }
+  for (const dir of dirs) {
+    await fs.ensureDir(dir);
+  }
+  for (const file of plan) {
+    const index = conflictingFiles.indexOf(file);
+    if (file.change === 'delete') {
+      await deleteGenerated(file.filePath);
+    } else if (index === -1) {
+      await writeGenerated(file.filePath, file.content, file.tracked);
+    } else {
+      await applyResolution(file.filePath, file.content, conflicts[index], resolutions[index]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run a step that writes to disk without going through writeFile (the Nest
+ * CLI). A staged run holds it back until its conflicts are settled; a dry
+ * run skips it.
+ */
+export async function runExternalStep(step: () => Promise<void>): Promise<void> {
+  if (isDryRun()) {
+    return;
+  }
+  if (staged) {
+    deferredSteps.push(step);
+    return;
+  }
+  await step();
+}
+
+/**
+ * Configure how subsequent writes behave
+ */
+export function setWriteOptions(options: WriteOptions): void {
+  writeOptions = { ...options };
+  manifest = null;
+  conflictLog = [];
+  scaffoldedFiles = new Set();
+  legacyContent = new Map();
+}
+
+/**
+ * Mark a file as freshly created by another generator in this run
+ */
+export function markScaffolded(filePath: string): void {
+  scaffoldedFiles.add(path.resolve(filePath));
+}
+
+/**
+ * Record what a generator version from before the manifest wrote to a file.
+ * A file still holding that content counts as untouched, and an edited one is
+ * merged against it.
+ */
+export function markLegacy(filePath: string, content: string): void {
+  legacyContent.set(path.resolve(filePath), content);
+}
+
+/**
+ * Conflicts encountered so far and how each one was resolved
+ */
+export function getConflictLog(): ConflictRecord[] {
+  return [...conflictLog];
+}
+
 export async function ensureDir(dirPath: string): Promise<void> {
+  if (activePlan) {
+    if (staged) {
+      plannedDirs.add(path.resolve(dirPath));
+    }
+    return;
+  }
   await fs.ensureDir(dirPath);
 }
 
 export async function writeFile(
   filePath: string,
-  content: string
+  content: string,
+  options: WriteFileOptions = {}
+): Promise<void> {
+  const tracked = options.tracked ?? true;
+
+  if (activePlan) {
+    recordPlannedWrite(filePath, content, tracked);
+    return;
+  }
+
+  const conflict = tracked
+    ? await findConflict({ filePath, content, tracked, previousContent: await readFileIfExists(filePath) })
+    : null;
+  if (!conflict) {
+    await writeGenerated(filePath, content, tracked);
+    return;
+  }
+
+  const resolution = await resolveConflict(conflict, writeOptions.conflictPolicy ?? 'prompt');
+  await applyResolution(filePath, content, conflict, resolution);
+}
+
+/**
+ * Delete a generated file the generator no longer produces. Only an untouched
+ * file is removed: returns false, leaving it in place, when the user edited it.
+ * During a dry or staged run the removal is planned like a write.
+ */
+export async function removeFile(filePath: string): Promise<boolean> {
+  const existing = await readCurrentFile(filePath);
+  if (existing === null) {
+    return true;
+  }
+  if (legacyContent.get(path.resolve(filePath)) !== existing && !(await isPristine(filePath, existing))) {
+    return false;
+  }
+
+  if (activePlan) {
+    const key = path.resolve(filePath);
+    activePlan.set(key, { filePath: key, change: 'delete', previousContent: existing, content: '', tracked: true });
+    return true;
+  }
+
+  await deleteGenerated(filePath);
+  return true;
+}
+
+/**
+ * The conflict a tracked write would run into: an existing file that differs
+ * from the generated content, was not just scaffolded and is not an untouched
+ * generated file. Null when the write is safe.
+ */
+async function findConflict(
+  file: Pick<PlannedFile, 'filePath' | 'content' | 'tracked' | 'previousContent'>
+): Promise<ConflictDetails | null> {
+  const { filePath, content, previousContent: existing } = file;
+  const legacy = legacyContent.get(path.resolve(filePath)) ?? null;
+  if (
+    !file.tracked ||
+    existing === null ||
+    existing === content ||
+    existing === legacy ||
+    scaffoldedFiles.has(path.resolve(filePath)) ||
+    (await isPristine(filePath, existing))
+  ) {
+    return null;
+  }
+
+  return {
+    relativePath: writeOptions.projectRoot ? path.relative(writeOptions.projectRoot, filePath) : filePath,
+    existing,
+    generated: content,
+    base: (await loadSnapshot(filePath)) ?? legacy,
+  };
+}
+
+async function writeGenerated(filePath: string, content: string, tracked: boolean): Promise<void> {
+  await writeToDisk(filePath, content);
+  if (tracked) {
+    await recordGenerated(filePath, content);
+  }
+}
+
+async function applyResolution(
+  filePath: string,
+  content: string,
+  conflict: ConflictDetails,
+  resolution: ConflictResolution
 ): Promise<void> {
+  const { relativePath, base, existing } = conflict;
+
+  switch (resolution) {
+    case 'overwrite':
+      await writeToDisk(filePath, content);
+      await recordGenerated(filePath, content);
+      break;
+    case 'skip':
+      break;
+    case 'new-file':
+      // The user folds the .new file in by hand, so it becomes the next merge base
+      await writeToDisk(`${filePath}.new`, content);
+      await recordGenerated(filePath, content);
+      break;
+    case 'merge': {
+      const merged = base === null ? null : mergeThreeWay(base, content, existing);
+      if (merged === null) {
+        // Overlapping edits: leave the user's file alone and hand over the generated version
+        resolution = 'new-file';
+        console.log(chalk.yellow(`⚠️  Could not merge ${relativePath} automatically`));
+        await writeToDisk(`${filePath}.new`, content);
+        await recordGenerated(filePath, content);
+      } else {
+        await writeToDisk(filePath, merged);
+        await recordGenerated(filePath, content);
+      }
+      break;
+    }
+  }
+
+  conflictLog.push({ filePath, resolution });
+  console.log(describeResolution(resolution, relativePath));
+}
+
+/**
+ * Read a file as the generator currently sees it: the planned content during a
+ * dry or staged run, otherwise what is on disk. Returns null if the file does not exist.
+ */
+export async function readCurrentFile(filePath: string): Promise<string | null> {
+  const planned = activePlan?.get(path.resolve(filePath));
+  if (planned) {
+    return planned.change === 'delete' ? null : planned.content;
+  }
+  return readFileIfExists(filePath);
+}
+
+async function writeToDisk(filePath: string, content: string): Promise<void> {
   await fs.ensureDir(path.dirname(filePath));
   await fs.writeFile(filePath, content, 'utf-8');
 }
 
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function getSnapshotPath(filePath: string): string | null {
+  if (!writeOptions.projectRoot) {
+    return null;
+  }
+
+  const relativePath = path.relative(writeOptions.projectRoot, filePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+
+  return path.join(writeOptions.projectRoot, SNAPSHOT_DIR, relativePath);
+}
+
+/**
+ * Remember generated content: a snapshot as the next merge base and
+ * its hash in the manifest
+ */
+async function recordGenerated(filePath: string, content: string): Promise<void> {
+  const snapshotPath = getSnapshotPath(filePath);
+  if (!snapshotPath || !writeOptions.projectRoot) {
+    return;
+  }
+
+  await writeToDisk(snapshotPath, content);
+
+  manifest = manifest ?? (await loadManifest(writeOptions.projectRoot));
+  manifest.files[toManifestPath(writeOptions.projectRoot, filePath)] = {
+    hash: hashContent(content),
+    generatedAt: new Date().toISOString(),
+  };
+  await saveManifest(writeOptions.projectRoot, manifest);
+}
+
+/**
+ * Remove a generated file together with its snapshot and manifest entry
+ */
+async function deleteGenerated(filePath: string): Promise<void> {
+  await fs.remove(filePath);
+
+  const snapshotPath = getSnapshotPath(filePath);
+  if (!snapshotPath || !writeOptions.projectRoot) {
+    return;
+  }
+
+  await fs.remove(snapshotPath);
+  manifest = manifest ?? (await loadManifest(writeOptions.projectRoot));
+  delete manifest.files[toManifestPath(writeOptions.projectRoot, filePath)];
+  await saveManifest(writeOptions.projectRoot, manifest);
+}
+
+/**
+ * True when the file on disk is exactly what the generator last produced
+ */
+async function isPristine(filePath: string, existing: string): Promise<boolean> {
+  if (!writeOptions.projectRoot || !getSnapshotPath(filePath)) {
+    return false;
+  }
+
+  manifest = manifest ?? (await loadManifest(writeOptions.projectRoot));
+  const entry = manifest.files[toManifestPath(writeOptions.projectRoot, filePath)];
+  return entry !== undefined && entry.hash === hashContent(existing);
+}
+
+async function loadSnapshot(filePath: string): Promise<string | null> {
+  const snapshotPath = getSnapshotPath(filePath);
+  return snapshotPath ? readFileIfExists(snapshotPath) : null;
+}
+
+function recordPlannedWrite(filePath: string, content: string, tracked: boolean): void {
+  const key = path.resolve(filePath);
+  const existing = activePlan!.get(key);
+
+  // Keep the on-disk content from the first write so repeated writes diff correctly
+  const previousContent = existing
+    ? existing.previousContent
+    : fs.existsSync(key)
+      ? fs.readFileSync(key, 'utf-8')
+      : null;
+
+  let change: PlannedChange = 'create';
+  if (previousContent !== null) {
+    change = previousContent === content ? 'unchanged' : 'update';
+  }
+
+  activePlan!.set(key, { filePath: key, change, previousContent, content, tracked });
+}
+
+/**
+ * Render a unified diff for a planned file against what is on disk
+ */
+export function renderPlannedDiff(file: PlannedFile, projectRoot: string): string {
+  const relativePath = path.relative(projectRoot, file.filePath);
+  return createTwoFilesPatch(
+    file.previousContent === null ? '/dev/null' : `a/${relativePath}`,
+    file.change === 'delete' ? '/dev/null' : `b/${relativePath}`,
+    file.previousContent ?? '',
+    file.content,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+}
+
 export async function copyTemplate(
   sourceDir: string,
   destDir: string
 ): Promise<void> {
-  await fs.ensureDir(destDir);
-  await fs.copy(sourceDir, destDir, { overwrite: true });
+  await ensureDir(destDir);
+
+  const entries = await fs.readdir(sourceDir, { withFileTypes: true });
+  for (const entry of entries) {
+    const sourcePath = path.join(sourceDir, entry.name);
+    const destPath = path.join(destDir, entry.name);
+
+    if (entry.isDirectory()) {
+      await copyTemplate(sourcePath, destPath);
+    } else {
+      await writeFile(destPath, await fs.readFile(sourcePath, 'utf-8'));
+    }
+  }
 }
 
 export function resolveTemplate(
@@ -0,0 +1,87 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Manifest
+ *
+ * Records every file the generator produced and the hash of its content at
+ * generation time. Later runs use it to tell untouched generated files from
+ * files the user edited.
+ */
+
+export const MANIFEST_FILE = '.auth-bp-manifest.json';
+
+export interface ManifestEntry {
+  hash: string;
+  generatedAt: string;
+}
+
+export interface Manifest {
+  files: Record<string, ManifestEntry>;
+}
+
+export type GeneratedFileStatus = 'pristine' | 'modified' | 'deleted';
+
+export interface GeneratedFileReport {
+  path: string;
+  status: GeneratedFileStatus;
+  generatedAt: string;
+}
+
+export function hashContent(content: string): string {
+  return 'sha256:' + createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * Manifest keys are project-relative paths with forward slashes
+ */
+export function toManifestPath(projectRoot: string, filePath: string): string {
+  return path.relative(projectRoot, filePath).split(path.sep).join('/');
+}
+
+export async function loadManifest(projectRoot: string): Promise<Manifest> {
+  try {
+    const manifest = await fs.readJSON(path.join(projectRoot, MANIFEST_FILE));
+    return { files: manifest.files ?? {} };
+  } catch {
+    return { files: {} };
+  }
+}
+
+export async function saveManifest(projectRoot: string, manifest: Manifest): Promise<void> {
+  const sorted: Record<string, ManifestEntry> = {};
+  for (const key of Object.keys(manifest.files).sort()) {
+    sorted[key] = manifest.files[key];
+  }
+
+  await fs.writeFile(
+    path.join(projectRoot, MANIFEST_FILE),
+    JSON.stringify({ files: sorted }, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+/**
+ * Compare every file in the manifest against what is on disk
+ */
+export async function getGeneratedFileStatuses(
+  projectRoot: string
+): Promise<GeneratedFileReport[]> {
+  const manifest = await loadManifest(projectRoot);
+  const reports: GeneratedFileReport[] = [];
+
+  for (const [relativePath, entry] of Object.entries(manifest.files)) {
+    let status: GeneratedFileStatus;
+    try {
+      const content = await fs.readFile(path.join(projectRoot, relativePath), 'utf-8');
+      status = hashContent(content) === entry.hash ? 'pristine' : 'modified';
+    } catch {
+      status = 'deleted';
+    }
+
+    reports.push({ path: relativePath, status, generatedAt: entry.generatedAt });
+  }
+
+  return reports;
+}
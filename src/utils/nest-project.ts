@@ -0,0 +1,89 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+
+/**
+ * NestProject
+ *
+ * Reads the host nest-cli.json to find where generated code belongs: the
+ * source root of a standard project, or of one application in a monorepo.
+ */
+
+export const NEST_CLI_FILE = 'nest-cli.json';
+
+export interface NestProjectLayout {
+  /** Source root relative to the project root, e.g. `src` or `apps/api/src` */
+  sourceRoot: string;
+  /** Monorepo project name, passed to `nest g --project` */
+  project?: string;
+}
+
+interface NestCliProject {
+  type?: string;
+  root?: string;
+  sourceRoot?: string;
+}
+
+interface NestCliConfig {
+  sourceRoot?: string;
+  monorepo?: boolean;
+  projects?: Record<string, NestCliProject>;
+}
+
+/**
+ * Resolve the layout for a project root. `project` selects a monorepo
+ * project; without it the default project (top-level sourceRoot) is used.
+ */
+export async function resolveNestProject(
+  projectRoot: string,
+  project?: string
+): Promise<NestProjectLayout> {
+  const cliConfig = await readNestCliConfig(projectRoot);
+  const projects = cliConfig?.projects ?? {};
+
+  if (project !== undefined) {
+    const entry = projects[project];
+    if (!entry) {
+      const available = Object.keys(projects);
+      throw new Error(
+        available.length > 0
+          ? `Unknown Nest project "${project}". Projects in ${NEST_CLI_FILE}: ${available.join(', ')}`
+          : `--project requires a monorepo ${NEST_CLI_FILE} with "projects", none found in ${projectRoot}`
+      );
+    }
+    return {
+      sourceRoot: normalize(entry.sourceRoot ?? path.join(entry.root ?? project, 'src')),
+      project,
+    };
+  }
+
+  const sourceRoot = normalize(cliConfig?.sourceRoot ?? 'src');
+  const defaultProject = Object.keys(projects).find(
+    (name) => projects[name].sourceRoot && normalize(projects[name].sourceRoot!) === sourceRoot
+  );
+
+  return { sourceRoot, project: cliConfig?.monorepo ? defaultProject : undefined };
+}
+
+/**
+ * Absolute source directory for a layout
+ */
+export function getSourceDir(projectRoot: string, layout: NestProjectLayout): string {
+  return path.join(projectRoot, layout.sourceRoot);
+}
+
+async function readNestCliConfig(projectRoot: string): Promise<NestCliConfig | null> {
+  const filePath = path.join(projectRoot, NEST_CLI_FILE);
+  if (!(await fs.pathExists(filePath))) {
+    return null;
+  }
+
+  try {
+    return await fs.readJSON(filePath);
+  } catch (error: any) {
+    throw new Error(`Could not parse ${NEST_CLI_FILE}: ${error.message}`);
+  }
+}
+
+function normalize(sourceRoot: string): string {
+  return path.posix.normalize(sourceRoot.replace(/\\/g, '/')).replace(/\/$/, '');
+}